@@ -0,0 +1,35 @@
+/**
+ * Backfill único: marcar como verificados los usuarios existentes
+ * La verificación de email solo aplica a registros nuevos; las cuentas
+ * creadas antes de introducirla no deben quedar bloqueadas
+ *
+ * Uso: npm run prisma:backfill-email
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const main = async () => {
+  console.log('📧 Marcando usuarios existentes como verificados...');
+
+  // Solo cuentas sin tokens de verificación: esas se registraron antes del cambio
+  const { count } = await prisma.user.updateMany({
+    where: {
+      emailVerifiedAt: null,
+      tokens: { none: { tipo: 'VERIFICACION_EMAIL' } },
+    },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  console.log(`✅ Usuarios actualizados: ${count}`);
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Error durante el backfill:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,111 @@
+/**
+ * Backfill único: enlazar HistoricoReserva con su HistoricoPeriodo
+ * Antes las reservas archivadas solo guardaban la fecha de envío del periodo;
+ * este script resuelve el archivo al que pertenece cada una
+ *
+ * Uso: npm run prisma:backfill-historico [-- --dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// El archivo creaba el periodo y luego sus reservas: margen entre ambas marcas de tiempo
+const TOLERANCIA_MS = 5 * 60 * 1000;
+
+/**
+ * Elegir el periodo histórico de una reserva
+ * Con varios candidatos de la misma fecha de envío se toma el último archivado
+ * antes (o casi al mismo tiempo) que la reserva
+ */
+const resolverPeriodo = (
+  reserva: { fechaArchivado: Date },
+  candidatos: { id: number; fechaArchivado: Date }[]
+): number | null => {
+  if (candidatos.length === 1) {
+    return candidatos[0]!.id;
+  }
+
+  const previos = candidatos
+    .filter((p) => p.fechaArchivado.getTime() <= reserva.fechaArchivado.getTime() + TOLERANCIA_MS)
+    .sort((a, b) => b.fechaArchivado.getTime() - a.fechaArchivado.getTime());
+
+  const elegido = previos[0];
+
+  if (!elegido) {
+    return null;
+  }
+
+  // Demasiado lejos en el tiempo: no es el mismo archivo
+  if (reserva.fechaArchivado.getTime() - elegido.fechaArchivado.getTime() > TOLERANCIA_MS) {
+    return null;
+  }
+
+  return elegido.id;
+};
+
+const main = async () => {
+  console.log(`🔗 Enlazando reservas históricas con su periodo${DRY_RUN ? ' (dry-run)' : ''}...`);
+
+  const periodos = await prisma.historicoPeriodo.findMany({
+    select: { id: true, fechaEnvio: true, fechaArchivado: true },
+  });
+
+  const periodosPorFecha = new Map<number, { id: number; fechaArchivado: Date }[]>();
+
+  for (const periodo of periodos) {
+    const key = periodo.fechaEnvio.getTime();
+    const lista = periodosPorFecha.get(key) ?? [];
+    lista.push({ id: periodo.id, fechaArchivado: periodo.fechaArchivado });
+    periodosPorFecha.set(key, lista);
+  }
+
+  const reservas = await prisma.historicoReserva.findMany({
+    where: { historicoPeriodoId: null },
+    select: { id: true, periodoFechaEnvio: true, fechaArchivado: true },
+  });
+
+  let enlazadas = 0;
+  const sinResolver: number[] = [];
+
+  for (const reserva of reservas) {
+    const candidatos = periodosPorFecha.get(reserva.periodoFechaEnvio.getTime()) ?? [];
+    const historicoPeriodoId = resolverPeriodo(reserva, candidatos);
+
+    if (historicoPeriodoId === null) {
+      sinResolver.push(reserva.id);
+      continue;
+    }
+
+    if (!DRY_RUN) {
+      await prisma.historicoReserva.update({
+        where: { id: reserva.id },
+        data: { historicoPeriodoId },
+      });
+    }
+
+    enlazadas++;
+  }
+
+  console.log('='.repeat(50));
+  console.log(`📦 Reservas sin periodo: ${reservas.length}`);
+  console.log(`✅ Enlazadas: ${enlazadas}`);
+  console.log(`⚠️  Sin resolver: ${sinResolver.length}`);
+
+  if (sinResolver.length > 0) {
+    console.log(`   IDs: ${sinResolver.join(', ')}`);
+  }
+
+  console.log('='.repeat(50));
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Error durante el backfill:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
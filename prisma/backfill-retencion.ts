@@ -0,0 +1,38 @@
+/**
+ * Backfill único: inicio de retención de las reservas existentes
+ * La columna retenidaDesde se agrega con la fecha de la migración; se
+ * reemplaza por la última vez que cada reserva pasó a PENDIENTE (su
+ * creación si nunca se reactivó) para no alargar retenciones ya corriendo
+ *
+ * Uso: npm run prisma:backfill-retencion
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const main = async () => {
+  console.log('⏰ Calculando el inicio de retención de las reservas existentes...');
+
+  const count = await prisma.$executeRaw`
+    UPDATE reservas r
+    SET r.retenidaDesde = COALESCE(
+      (
+        SELECT MAX(e.createdAt) FROM reserva_eventos e
+        WHERE e.reservaId = r.id AND e.statusNuevo = 'PENDIENTE'
+      ),
+      r.createdAt
+    )
+  `;
+
+  console.log(`✅ Reservas actualizadas: ${count}`);
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Error durante el backfill:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
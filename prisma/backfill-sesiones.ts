@@ -0,0 +1,76 @@
+/**
+ * Backfill único: pasar los refresh tokens de las sesiones a refreshTokenHash
+ * La sesión ya no guarda el token en texto plano; sin este script la columna
+ * nueva (obligatoria y única) no se puede crear con sesiones existentes, y
+ * borrarlas cerraría la sesión de todos los usuarios
+ *
+ * Orden de despliegue (refreshToken debe existir todavía al correr el script):
+ *   1. npx prisma migrate dev --create-only   (o migrate diff en producción)
+ *      y en el SQL generado para sessions: agregar `refreshTokenHash` como
+ *      CHAR(64) NULL, sin índice único, y quitar el DROP COLUMN `refreshToken`
+ *   2. npx prisma migrate deploy              (agrega refreshTokenHash, conserva refreshToken)
+ *   3. npm run prisma:backfill-sesiones [-- --dry-run]
+ *   4. npx prisma migrate dev --create-only   (nueva migración: refreshTokenHash
+ *      NOT NULL + índice único, DROP COLUMN `refreshToken`) y npx prisma migrate deploy
+ *
+ * Si se prefiere no migrar las sesiones, basta con vaciar la tabla antes del
+ * paso 1 (DELETE FROM sessions): todos los usuarios tendrán que iniciar sesión de nuevo
+ *
+ * Uso: npm run prisma:backfill-sesiones [-- --dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const main = async () => {
+  console.log(`🔑 Pasando refresh tokens de las sesiones a hash${DRY_RUN ? ' (dry-run)' : ''}...`);
+
+  const columnas = await prisma.$queryRaw<{ total: bigint }[]>`
+    SELECT COUNT(*) AS total FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = 'sessions'
+      AND COLUMN_NAME = 'refreshToken'
+  `;
+
+  if (Number(columnas[0]?.total ?? 0) === 0) {
+    throw new Error(
+      'La columna sessions.refreshToken ya no existe: corre este script antes de eliminarla'
+    );
+  }
+
+  // Las sesiones vencidas no se pueden renovar: se eliminan en lugar de migrarlas
+  const [vencidas] = await prisma.$queryRaw<{ total: bigint }[]>`
+    SELECT COUNT(*) AS total FROM sessions WHERE expiresAt < NOW(3)
+  `;
+  const [pendientes] = await prisma.$queryRaw<{ total: bigint }[]>`
+    SELECT COUNT(*) AS total FROM sessions
+    WHERE refreshTokenHash IS NULL AND expiresAt >= NOW(3)
+  `;
+
+  if (!DRY_RUN) {
+    await prisma.$executeRaw`DELETE FROM sessions WHERE expiresAt < NOW(3)`;
+
+    // SHA2(..., 256) da el mismo hex en minúsculas que hashRefreshToken
+    await prisma.$executeRaw`
+      UPDATE sessions SET refreshTokenHash = SHA2(refreshToken, 256)
+      WHERE refreshTokenHash IS NULL
+    `;
+  }
+
+  console.log('='.repeat(50));
+  console.log(`✅ Sesiones con hash:        ${Number(pendientes?.total ?? 0)}`);
+  console.log(`🗑️  Sesiones vencidas borradas: ${Number(vencidas?.total ?? 0)}`);
+  console.log('='.repeat(50));
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Error durante el backfill:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
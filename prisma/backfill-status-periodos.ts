@@ -0,0 +1,71 @@
+/**
+ * Backfill único: pasar el flag isActive de los periodos al nuevo status
+ * La columna status se agrega con ABIERTO por defecto; sin este script los
+ * periodos que estaban inactivos volverían a aceptar reservas
+ *
+ * Orden de despliegue (isActive debe existir todavía al correr el script):
+ *   1. npx prisma migrate dev --create-only   (o migrate diff en producción)
+ *      y quitar del SQL generado el DROP COLUMN `isActive` de periodos_libras
+ *   2. npx prisma migrate deploy              (agrega status, conserva isActive)
+ *   3. npm run prisma:backfill-status [-- --dry-run]
+ *   4. npx prisma migrate dev --create-only   (nueva migración: DROP COLUMN `isActive`)
+ *      y npx prisma migrate deploy
+ *
+ * Uso: npm run prisma:backfill-status [-- --dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Un periodo inactivo ya no aceptaba reservas, pero aún no estaba archivado
+// (archivar lo movía al histórico): queda CERRADO y sigue su ciclo desde ahí
+const STATUS_INACTIVO = 'CERRADO';
+
+const main = async () => {
+  console.log(`🔁 Pasando isActive de los periodos a status${DRY_RUN ? ' (dry-run)' : ''}...`);
+
+  const columnas = await prisma.$queryRaw<{ total: bigint }[]>`
+    SELECT COUNT(*) AS total FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = 'periodos_libras'
+      AND COLUMN_NAME = 'isActive'
+  `;
+
+  if (Number(columnas[0]?.total ?? 0) === 0) {
+    throw new Error(
+      'La columna periodos_libras.isActive ya no existe: corre este script antes de eliminarla'
+    );
+  }
+
+  const inactivos = await prisma.$queryRaw<{ id: number }[]>`
+    SELECT id FROM periodos_libras WHERE isActive = false AND status = 'ABIERTO'
+  `;
+
+  if (!DRY_RUN && inactivos.length > 0) {
+    await prisma.$executeRaw`
+      UPDATE periodos_libras SET status = ${STATUS_INACTIVO}
+      WHERE isActive = false AND status = 'ABIERTO'
+    `;
+  }
+
+  console.log('='.repeat(50));
+  console.log(`✅ Periodos inactivos marcados ${STATUS_INACTIVO}: ${inactivos.length}`);
+
+  if (inactivos.length > 0) {
+    console.log(`   IDs: ${inactivos.map((p) => p.id).join(', ')}`);
+  }
+
+  console.log('='.repeat(50));
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Error durante el backfill:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -51,6 +51,7 @@ const createAdmin = async () => {
       password: hashedPassword,
       role: 'ADMIN_PRINCIPAL',
       isActive: true,
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -69,7 +70,7 @@ const createPeriodoActivo = async () => {
 
   // Verificar si ya existe un periodo activo
   const existingPeriodo = await prisma.periodoLibras.findFirst({
-    where: { isActive: true },
+    where: { status: 'ABIERTO' },
   });
 
   if (existingPeriodo) {
@@ -92,7 +93,7 @@ const createPeriodoActivo = async () => {
       librasTotales,
       fechaInicio,
       fechaFin,
-      isActive: true,
+      status: 'ABIERTO',
     },
   });
 
@@ -151,6 +152,7 @@ const createTestUsers = async () => {
       data: {
         ...userData,
         password: hashedPassword,
+        emailVerifiedAt: new Date(),
       },
     });
 
@@ -7,6 +7,7 @@ import cors from 'cors';
 import morgan from 'morgan';
 import path from 'path';
 import { CONFIG } from './config/constants';
+import { obtenerJwks } from './config/jwtKeys';
 import { errorHandler, notFoundHandler } from './middlewares/errorHandler';
 
 // Importar rutas
@@ -16,6 +17,21 @@ import reservaRoutes from './routes/reservaRoutes';
 import periodoRoutes from './routes/periodoRoutes';
 import dashboardRoutes from './routes/dashboardRoutes';
 import profileRoutes from './routes/profileRoutes';
+import listaEsperaRoutes from './routes/listaEsperaRoutes';
+import solicitudAsignacionRoutes from './routes/solicitudAsignacionRoutes';
+import rolRoutes from './routes/rolRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
+import invitacionRoutes from './routes/invitacionRoutes';
+
+/**
+ * Traducir TRUST_PROXY al valor que espera Express
+ */
+const resolverTrustProxy = (valor: string): boolean | number | string => {
+  if (valor === 'true') return true;
+  if (valor === 'false' || valor === '') return false;
+  if (/^\d+$/.test(valor)) return parseInt(valor, 10);
+  return valor;
+};
 
 /**
  * Crear y configurar la aplicación Express
@@ -23,6 +39,9 @@ import profileRoutes from './routes/profileRoutes';
 export const createApp = (): Application => {
   const app = express();
 
+  // IP real del cliente detrás de un proxy (la usan el bloqueo de login y las auditorías)
+  app.set('trust proxy', resolverTrustProxy(CONFIG.TRUST_PROXY));
+
   // ============================================
   // MIDDLEWARES BÁSICOS
   // ============================================
@@ -37,7 +56,8 @@ export const createApp = (): Application => {
       origin: CONFIG.FRONTEND_URL,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Idempotency-Key'],
+      exposedHeaders: ['Idempotent-Replayed', 'Retry-After'],
     })
   );
 
@@ -68,16 +88,31 @@ export const createApp = (): Application => {
     });
   });
 
+  // ============================================
+  // JWKS
+  // ============================================
+
+  // Llaves públicas para que otros servicios verifiquen nuestros tokens
+  app.get('/.well-known/jwks.json', (_, res) => {
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(obtenerJwks());
+  });
+
   // ============================================
   // RUTAS API
   // ============================================
 
   app.use('/api/auth', authRoutes);
+  app.use('/api/users/invitations', invitacionRoutes);
   app.use('/api/users', userRoutes);
   app.use('/api/reservas', reservaRoutes);
   app.use('/api/periodos', periodoRoutes);
   app.use('/api/dashboard', dashboardRoutes);
   app.use('/api/profile', profileRoutes);
+  app.use('/api/lista-espera', listaEsperaRoutes);
+  app.use('/api/solicitudes-asignacion', solicitudAsignacionRoutes);
+  app.use('/api/roles', rolRoutes);
+  app.use('/api/api-keys', apiKeyRoutes);
 
   // ============================================
   // MANEJADORES DE ERROR
@@ -15,6 +15,10 @@ export const CONFIG = {
   NODE_ENV: process.env.NODE_ENV || 'development',
   PORT: parseInt(process.env.PORT || '5000', 10),
 
+  // Proxies de confianza para req.ip (X-Forwarded-For): 'true', número de saltos
+  // o lista de IPs/subredes separadas por coma. Sin configurar, req.ip es la del proxy
+  TRUST_PROXY: process.env.TRUST_PROXY || 'false',
+
   // Frontend
   FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:5173',
 
@@ -24,12 +28,81 @@ export const CONFIG = {
   JWT_ACCESS_EXPIRES_IN: process.env.JWT_ACCESS_EXPIRES_IN || '15m',
   JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
 
+  // Firma de JWT: HS256 (secretos) o RS256/ES256 (llaves <kid>.pem en JWT_KEYS_DIR)
+  JWT_ALGORITHM: process.env.JWT_ALGORITHM || 'HS256',
+  JWT_KEYS_DIR: process.env.JWT_KEYS_DIR || 'keys',
+  JWT_SIGNING_KID: process.env.JWT_SIGNING_KID || '',
+
   // Seguridad
   BCRYPT_ROUNDS: parseInt(process.env.BCRYPT_ROUNDS || '10', 10),
 
+  // Correo: 'smtp' envía por servidor SMTP, 'outbox' escribe en disco (solo fuera de producción)
+  MAIL_TRANSPORT:
+    process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'outbox'),
+  MAIL_FROM: process.env.MAIL_FROM || 'Paquetería <no-reply@paqueteria.com>',
+  MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || 'outbox',
+  SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASS: process.env.SMTP_PASS || '',
+
+  // Restablecimiento de contraseña (minutos de validez del enlace)
+  PASSWORD_RESET_TTL_MINUTES: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+
+  // Protección de login: fallos antes del bloqueo, duración del bloqueo y backoff entre intentos
+  LOGIN_MAX_INTENTOS_CUENTA: parseInt(process.env.LOGIN_MAX_INTENTOS_CUENTA || '5', 10),
+  LOGIN_MAX_INTENTOS_IP: parseInt(process.env.LOGIN_MAX_INTENTOS_IP || '20', 10),
+  LOGIN_VENTANA_MINUTOS: parseInt(process.env.LOGIN_VENTANA_MINUTOS || '15', 10),
+  LOGIN_BLOQUEO_MINUTOS: parseInt(process.env.LOGIN_BLOQUEO_MINUTOS || '15', 10),
+  LOGIN_BACKOFF_BASE_SEGUNDOS: parseInt(process.env.LOGIN_BACKOFF_BASE_SEGUNDOS || '1', 10),
+  LOGIN_BACKOFF_MAX_SEGUNDOS: parseInt(process.env.LOGIN_BACKOFF_MAX_SEGUNDOS || '30', 10),
+
+  // 2FA (TOTP): obligatorio para ADMIN_PRINCIPAL con TOTP_REQUIRED_FOR_ADMIN=true
+  TOTP_REQUIRED_FOR_ADMIN: process.env.TOTP_REQUIRED_FOR_ADMIN === 'true',
+  TOTP_ISSUER: process.env.TOTP_ISSUER || 'Paqueteria',
+  TOTP_CHALLENGE_EXPIRES_IN: process.env.TOTP_CHALLENGE_EXPIRES_IN || '5m',
+  TOTP_CODIGOS_RECUPERACION: parseInt(process.env.TOTP_CODIGOS_RECUPERACION || '10', 10),
+
+  // Registro: 'open' (público), 'invite' (solo por invitación) o 'closed' (solo el admin crea usuarios)
+  REGISTRATION_MODE: process.env.REGISTRATION_MODE || 'open',
+  INVITATION_TTL_HOURS: parseInt(process.env.INVITATION_TTL_HOURS || '72', 10),
+
+  // Importación de usuarios por CSV: máximo de filas por archivo
+  USER_IMPORT_MAX_ROWS: parseInt(process.env.USER_IMPORT_MAX_ROWS || '1000', 10),
+
+  // Verificación de email al registrarse (desactivar con EMAIL_VERIFICATION_REQUIRED=false)
+  EMAIL_VERIFICATION_REQUIRED: process.env.EMAIL_VERIFICATION_REQUIRED !== 'false',
+  EMAIL_VERIFICATION_TTL_HOURS: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+
+  // Impersonación ("ver como usuario"): duración del token, solo lectura
+  IMPERSONATION_EXPIRES_IN: process.env.IMPERSONATION_EXPIRES_IN || '15m',
+
+  // API keys: minutos entre actualizaciones de "último uso"
+  API_KEY_USO_INTERVALO_MINUTOS: parseInt(process.env.API_KEY_USO_INTERVALO_MINUTOS || '1', 10),
+
+  // Segundos que se cachean los permisos por rol
+  PERMISOS_CACHE_SEGUNDOS: parseInt(process.env.PERMISOS_CACHE_SEGUNDOS || '60', 10),
+
+  // Idempotencia (horas que se conserva la respuesta de una clave)
+  IDEMPOTENCY_TTL_HOURS: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24', 10),
+
   // Configuración de negocio
   DEFAULT_LIBRAS_TOTALES: parseInt(process.env.DEFAULT_LIBRAS_TOTALES || '2000', 10),
 
+  // Retención de reservas PENDIENTE (horas) y frecuencia del vencimiento automático (minutos)
+  DEFAULT_HORAS_RETENCION: parseInt(process.env.DEFAULT_HORAS_RETENCION || '48', 10),
+  VENCIMIENTO_INTERVALO_MINUTOS: parseInt(process.env.VENCIMIENTO_INTERVALO_MINUTOS || '15', 10),
+
+  // Límites de reserva por usuario en cada periodo (0 = sin límite);
+  // cada periodo y cada usuario pueden sobrescribirlos
+  LIMITE_MAX_LIBRAS_USUARIO: parseFloat(process.env.LIMITE_MAX_LIBRAS_USUARIO || '0'),
+  LIMITE_MIN_LIBRAS_RESERVA: parseFloat(process.env.LIMITE_MIN_LIBRAS_RESERVA || '0'),
+  LIMITE_MAX_RESERVAS_ABIERTAS: parseInt(process.env.LIMITE_MAX_RESERVAS_ABIERTAS || '0', 10),
+
+  // Horas tras archivar un periodo durante las que se puede reabrir
+  REAPERTURA_GRACIA_HORAS: parseInt(process.env.REAPERTURA_GRACIA_HORAS || '72', 10),
+
   // Admin por defecto
   ADMIN_NAME: process.env.ADMIN_NAME || 'Admin Principal',
   ADMIN_EMAIL: process.env.ADMIN_EMAIL || 'admin@paqueteria.com',
@@ -83,6 +156,7 @@ export const HTTP_STATUS = {
   NOT_FOUND: 404,
   CONFLICT: 409,
   UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
 } as const;
 
@@ -94,12 +168,47 @@ export const ERROR_MESSAGES = {
   UNAUTHORIZED: 'No autorizado',
   TOKEN_INVALID: 'Token inválido o expirado',
   TOKEN_REQUIRED: 'Token requerido',
+  IMPERSONATION_SOLO_LECTURA: 'Durante la impersonación solo se permiten consultas',
+  IMPERSONATION_INVALIDA: 'La impersonación ya no es válida',
+  IMPERSONATION_NO_PERMITIDA: 'No se puede impersonar a este usuario',
+  API_KEY_INVALID: 'API key inválida, revocada o expirada',
+  API_KEY_NOT_FOUND: 'API key no encontrada',
+  API_KEY_NO_GESTIONA: 'Una API key no puede gestionar API keys',
+  API_KEY_SCOPE_NO_PERMITIDO: 'No puedes conceder permisos que no tienes',
+  API_KEY_YA_REVOCADA: 'La API key ya está revocada',
+  API_KEY_RUTA_NO_PERMITIDA: 'Esta ruta no acepta API keys',
   SESSION_NOT_FOUND: 'Sesión no encontrada',
+  SESSION_EXPIRED: 'Sesión expirada',
+  TOTP_CODE_INVALID: 'Código de verificación inválido',
+  TOTP_ALREADY_ENABLED: 'La verificación en dos pasos ya está activada',
+  TOTP_NOT_ENABLED: 'La verificación en dos pasos no está activada',
+  TOTP_SETUP_REQUIRED: 'Primero genera un secreto con /api/auth/2fa/setup',
+  TOTP_REQUIRED_ADMIN: 'Los administradores deben activar la verificación en dos pasos',
+  TOTP_CHALLENGE_INVALID: 'La verificación en dos pasos expiró. Inicia sesión de nuevo',
+  LOGIN_BLOQUEADO: 'Demasiados intentos de inicio de sesión. Intenta más tarde',
+  EMAIL_NOT_VERIFIED: 'Debes verificar tu email antes de iniciar sesión',
+  VERIFICATION_TOKEN_INVALID: 'El enlace de verificación es inválido o expiró',
+  RESET_TOKEN_INVALID: 'El enlace para restablecer la contraseña es inválido o expiró',
+  REFRESH_TOKEN_REUSED: 'Refresh token reutilizado: la sesión fue revocada por seguridad',
   INVALID_CREDENTIALS: 'Credenciales inválidas',
   EMAIL_ALREADY_EXISTS: 'El correo electrónico ya está registrado',
+  REGISTRO_CERRADO: 'El registro público está cerrado',
+  INVITACIONES_DESACTIVADAS: 'Las invitaciones están desactivadas',
+  INVITACION_INVALIDA: 'La invitación es inválida, expiró o fue revocada',
+  INVITACION_NOT_FOUND: 'Invitación no encontrada',
+  INVITACION_NO_PENDIENTE: 'La invitación ya fue aceptada o revocada',
+  INVITACION_PENDIENTE_EXISTE: 'Ya hay una invitación pendiente para este email',
   USER_NOT_FOUND: 'Usuario no encontrado',
+  USER_LIMITES_NOT_FOUND: 'El usuario no tiene límites de reserva propios',
   USER_INACTIVE: 'Usuario inactivo',
+  USER_YA_ANONIMIZADO: 'El usuario ya fue anonimizado',
   INSUFFICIENT_PERMISSIONS: 'Permisos insuficientes',
+  ROL_NO_EDITABLE: 'Los permisos de ADMIN_PRINCIPAL no se pueden modificar',
+  ASIGNAR_ADMIN_SOLO_ADMIN: 'Solo un ADMIN_PRINCIPAL puede asignar el rol ADMIN_PRINCIPAL',
+
+  // Direcciones
+  DIRECCION_NOT_FOUND: 'Dirección no encontrada',
+  ESTADO_REQUERIDO: 'El estado es requerido: indícalo, elige una dirección o configura un destino predeterminado en tu perfil',
 
   // Reservas
   RESERVA_NOT_FOUND: 'Reserva no encontrada',
@@ -107,14 +216,52 @@ export const ERROR_MESSAGES = {
   PERIODO_NOT_FOUND: 'Periodo no encontrado',
   PERIODO_INACTIVO: 'No hay un periodo activo',
   PERIODO_ACTIVO_EXISTS: 'Ya existe un periodo activo',
+  PERIODO_NO_ABIERTO: 'El periodo no está abierto a reservas',
+  PERIODO_NO_EDITABLE: 'Solo se pueden editar periodos abiertos o cerrados',
+  PERIODO_YA_ENVIADO: 'El periodo ya fue enviado; la reserva no se puede eliminar',
+  PERIODO_NO_ARCHIVABLE: 'Solo se pueden archivar periodos en tránsito o cancelados',
+  PERIODO_NO_ARCHIVADO: 'El periodo no está archivado',
+  PERIODO_ARCHIVO_NOT_FOUND: 'No se encontró el archivo del periodo',
+  PERIODO_REAPERTURA_VENCIDA: 'El plazo para reabrir el periodo ya venció',
+  PERIODO_ARCHIVAR_CON_CLOSE: 'Para archivar un periodo usa POST /api/periodos/:periodoId/close',
   FECHA_FUERA_PERIODO: 'La fecha está fuera del periodo activo',
   NO_PUEDE_EDITAR_RESERVA: 'No tienes permiso para editar esta reserva',
   NO_PUEDE_ELIMINAR_RESERVA: 'No tienes permiso para eliminar esta reserva',
   INVALID_STATUS_TRANSITION: 'Transición de estado no permitida',
   CANNOT_CHANGE_STATUS: 'No tienes permiso para cambiar este estado',
+  RESERVA_STATUS_SOLO_CANCELAR: 'Solo puedes cancelar o reactivar tu reserva',
   STATUS_ALREADY_SET: 'La reserva ya tiene este estado',
   CANNOT_MODIFY_FINAL_STATUS: 'No se puede modificar una reserva entregada o cancelada',
 
+  // Ventana de reservas
+  VENTANA_NO_ABIERTA: 'El periodo aún no acepta reservas',
+  VENTANA_CERRADA: 'El periodo ya pasó su fecha de corte',
+  VENTANA_OVERRIDE_SIN_PERMISO: 'No tienes permiso para reservar fuera de la ventana del periodo',
+  VENTANA_INVALIDA: 'La fecha de apertura debe ser anterior a la fecha de corte',
+  CORTE_DESPUES_DE_ENVIO: 'La fecha de corte no puede ser posterior a la fecha de envío',
+
+  // Lista de espera
+  LISTA_ESPERA_NOT_FOUND: 'Entrada de lista de espera no encontrada',
+  LISTA_ESPERA_DUPLICADA: 'Ya estás en la lista de espera de este periodo',
+  LISTA_ESPERA_NO_ACTIVA: 'La entrada ya no está en espera',
+  LISTA_ESPERA_HAY_CAPACIDAD: 'El periodo tiene capacidad suficiente, crea la reserva directamente',
+
+  // Asignación por solicitudes
+  PERIODO_CON_SOLICITUDES: 'Este periodo reparte sus libras al corte: envía una solicitud en /api/solicitudes-asignacion',
+  PERIODO_SIN_SOLICITUDES: 'Este periodo asigna por orden de llegada: crea la reserva directamente',
+  MODO_ASIGNACION_REQUIERE_CORTE: 'Un periodo con reparto por solicitudes requiere fecha de corte',
+  MODO_ASIGNACION_NO_EDITABLE: 'El modo de asignación ya no se puede cambiar: el periodo tiene reservas, solicitudes o ya se repartió',
+  SOLICITUD_NOT_FOUND: 'Solicitud de asignación no encontrada',
+  SOLICITUD_DUPLICADA: 'Ya tienes una solicitud pendiente en este periodo',
+  SOLICITUD_NO_PENDIENTE: 'La solicitud ya no está pendiente',
+  ASIGNACION_YA_EJECUTADA: 'Las libras de este periodo ya se repartieron',
+  ASIGNACION_ANTES_DEL_CORTE: 'El reparto solo puede ejecutarse después de la fecha de corte',
+
+  // Idempotencia
+  IDEMPOTENCY_KEY_INVALID: 'Idempotency-Key inválida (máximo 255 caracteres)',
+  IDEMPOTENCY_KEY_IN_PROGRESS: 'Hay una solicitud en proceso con esta Idempotency-Key',
+  IDEMPOTENCY_KEY_MISMATCH: 'La Idempotency-Key ya se usó con una solicitud diferente',
+
   // Genéricos
   VALIDATION_ERROR: 'Error de validación',
   INTERNAL_SERVER_ERROR: 'Error interno del servidor',
@@ -127,28 +274,67 @@ export const ERROR_MESSAGES = {
 export const SUCCESS_MESSAGES = {
   // Auth
   REGISTER_SUCCESS: 'Usuario registrado exitosamente',
+  REGISTER_VERIFICATION_SENT: 'Usuario registrado. Revisa tu correo para verificar tu email',
+  EMAIL_VERIFIED: 'Email verificado exitosamente',
+  VERIFICATION_RESENT: 'Si el email está registrado y sin verificar, recibirás un nuevo enlace',
   LOGIN_SUCCESS: 'Inicio de sesión exitoso',
   LOGOUT_SUCCESS: 'Sesión cerrada exitosamente',
   PASSWORD_CHANGED: 'Contraseña cambiada exitosamente',
   PROFILE_UPDATED: 'Perfil actualizado exitosamente',
   SESSION_DELETED: 'Sesión eliminada exitosamente',
+  USER_UNLOCKED: 'Cuenta desbloqueada exitosamente',
+  INVITACION_SENT: 'Invitación enviada exitosamente',
+  INVITACION_RESENT: 'Invitación reenviada exitosamente',
+  INVITACION_REVOKED: 'Invitación revocada exitosamente',
+  INVITACION_ACCEPTED: 'Invitación aceptada. Ya puedes iniciar sesión',
+  IMPERSONATION_STARTED: 'Impersonación iniciada (solo lectura)',
+  ROL_PERMISOS_UPDATED: 'Permisos del rol actualizados exitosamente',
+  API_KEY_CREATED: 'API key creada. Guárdala: no se volverá a mostrar',
+  API_KEY_REVOKED: 'API key revocada exitosamente',
+  TOTP_CHALLENGE: 'Ingresa el código de tu app de autenticación',
+  TOTP_SETUP: 'Escanea el código en tu app de autenticación y confirma con un código',
+  TOTP_ENABLED: 'Verificación en dos pasos activada. Guarda tus códigos de recuperación',
+  TOTP_DISABLED: 'Verificación en dos pasos desactivada',
+  TOTP_RECOVERY_REGENERATED: 'Códigos de recuperación regenerados',
+  PASSWORD_RESET_REQUESTED: 'Si el email está registrado, recibirás un enlace para restablecer tu contraseña',
+  PASSWORD_RESET_SUCCESS: 'Contraseña restablecida exitosamente. Inicia sesión de nuevo',
+
+  // Direcciones
+  DIRECCION_CREATED: 'Dirección agregada exitosamente',
+  DIRECCION_UPDATED: 'Dirección actualizada exitosamente',
+  DIRECCION_DELETED: 'Dirección eliminada exitosamente',
 
   // Usuarios
   USER_CREATED: 'Usuario creado exitosamente',
   USER_UPDATED: 'Usuario actualizado exitosamente',
   USER_DELETED: 'Usuario eliminado exitosamente',
+  USER_ANONYMIZED: 'Usuario anonimizado exitosamente',
+  USERS_IMPORTED: 'Usuarios importados exitosamente',
+  USER_LIMITES_UPDATED: 'Límites de reserva del usuario actualizados exitosamente',
+  USER_LIMITES_RESET: 'El usuario vuelve a usar los límites del periodo y globales',
   USER_ROLE_UPDATED: 'Rol de usuario actualizado exitosamente',
 
   // Periodos
   PERIODO_CREATED: 'Periodo creado exitosamente',
   PERIODO_UPDATED: 'Periodo actualizado exitosamente',
   PERIODO_CLOSED: 'Periodo cerrado y archivado exitosamente',
+  PERIODO_REOPENED: 'Periodo reabierto y reservas restauradas exitosamente',
+  PERIODO_STATUS_UPDATED: 'Estado del periodo actualizado exitosamente',
 
   // Reservas
   RESERVA_CREATED: 'Reserva creada exitosamente',
   RESERVA_UPDATED: 'Reserva actualizada exitosamente',
   RESERVA_DELETED: 'Reserva eliminada exitosamente',
   RESERVA_STATUS_UPDATED: 'Estado de reserva actualizado exitosamente',
+
+  // Lista de espera
+  LISTA_ESPERA_JOINED: 'Te uniste a la lista de espera',
+  LISTA_ESPERA_LEFT: 'Saliste de la lista de espera',
+
+  // Asignación por solicitudes
+  SOLICITUD_CREATED: 'Solicitud registrada. Las libras se repartirán al corte del periodo',
+  SOLICITUD_WITHDRAWN: 'Solicitud retirada',
+  ASIGNACION_EJECUTADA: 'Reparto ejecutado y reservas creadas exitosamente',
 } as const;
 
 /**
@@ -156,9 +342,74 @@ export const SUCCESS_MESSAGES = {
  */
 export const ROLES = {
   ADMIN_PRINCIPAL: 'ADMIN_PRINCIPAL',
+  OPERADOR_BODEGA: 'OPERADOR_BODEGA',
+  CHOFER: 'CHOFER',
   USUARIO: 'USUARIO',
 } as const;
 
+/**
+ * Permisos granulares
+ * Sin permisos, un usuario solo accede a sus propios recursos
+ */
+export const PERMISOS = {
+  RESERVAS_READ: 'reservas:read', // Ver reservas de todos los usuarios
+  RESERVAS_MANAGE: 'reservas:manage', // Editar y eliminar reservas ajenas
+  RESERVAS_CONFIRM: 'reservas:confirm', // PENDIENTE → CONFIRMADA
+  RESERVAS_SHIP: 'reservas:ship', // CONFIRMADA → ENVIADA
+  RESERVAS_DELIVER: 'reservas:deliver', // ENVIADA → ENTREGADA
+  RESERVAS_CANCEL: 'reservas:cancel', // Cancelar reservas ajenas
+  RESERVAS_OVERRIDE_VENTANA: 'reservas:override-ventana', // Reservar fuera de la ventana
+  LISTA_ESPERA_MANAGE: 'lista-espera:manage', // Ver y retirar entradas ajenas
+  PERIODOS_READ: 'periodos:read',
+  PERIODOS_MANAGE: 'periodos:manage', // Crear y editar periodos
+  PERIODOS_CLOSE: 'periodos:close', // Cambiar estado, archivar y reabrir
+  USERS_MANAGE: 'users:manage',
+  USERS_IMPERSONATE: 'users:impersonate', // Ver la API como otro usuario (solo lectura)
+  ROLES_MANAGE: 'roles:manage',
+  API_KEYS_MANAGE: 'api-keys:manage',
+  REPORTES_READ: 'reportes:read', // Reportes con las reservas de todos los usuarios
+} as const;
+
+/**
+ * Permisos por defecto de cada rol (si no se configuraron por la API)
+ * ADMIN_PRINCIPAL siempre tiene todos los permisos
+ */
+export const PERMISOS_POR_ROL_DEFECTO: Record<string, readonly string[]> = {
+  [ROLES.ADMIN_PRINCIPAL]: Object.values(PERMISOS),
+  [ROLES.OPERADOR_BODEGA]: [
+    PERMISOS.RESERVAS_READ,
+    PERMISOS.RESERVAS_CONFIRM,
+    PERMISOS.RESERVAS_SHIP,
+    PERMISOS.RESERVAS_CANCEL,
+    PERMISOS.LISTA_ESPERA_MANAGE,
+    PERMISOS.PERIODOS_READ,
+  ],
+  [ROLES.CHOFER]: [
+    PERMISOS.RESERVAS_READ,
+    PERMISOS.RESERVAS_DELIVER,
+  ],
+  [ROLES.USUARIO]: [],
+};
+
+/**
+ * Modos de registro
+ */
+export const MODOS_REGISTRO = {
+  OPEN: 'open',
+  INVITE: 'invite',
+  CLOSED: 'closed',
+} as const;
+
+/**
+ * Estados de una invitación (derivados de sus fechas)
+ */
+export const STATUS_INVITACION = {
+  PENDIENTE: 'PENDIENTE',
+  ACEPTADA: 'ACEPTADA',
+  REVOCADA: 'REVOCADA',
+  EXPIRADA: 'EXPIRADA',
+} as const;
+
 /**
  * Estados de reserva
  */
@@ -170,6 +421,47 @@ export const STATUS_RESERVA = {
   CANCELADA: 'CANCELADA',
 } as const;
 
+/**
+ * Ciclo de vida de periodos
+ */
+export const STATUS_PERIODO = {
+  ABIERTO: 'ABIERTO',
+  CERRADO: 'CERRADO',
+  EN_TRANSITO: 'EN_TRANSITO',
+  ARCHIVADO: 'ARCHIVADO',
+  CANCELADO: 'CANCELADO',
+} as const;
+
+/**
+ * Estados de lista de espera
+ */
+export const STATUS_LISTA_ESPERA = {
+  EN_ESPERA: 'EN_ESPERA',
+  PROMOVIDA: 'PROMOVIDA',
+  RETIRADA: 'RETIRADA',
+  EXPIRADA: 'EXPIRADA',
+} as const;
+
+/**
+ * Modos de asignación de un periodo
+ */
+export const MODOS_ASIGNACION = {
+  ORDEN_LLEGADA: 'ORDEN_LLEGADA',
+  PROPORCIONAL: 'PROPORCIONAL',
+  MAX_MIN: 'MAX_MIN',
+} as const;
+
+/**
+ * Estados de una solicitud de asignación
+ */
+export const STATUS_SOLICITUD_ASIGNACION = {
+  PENDIENTE: 'PENDIENTE',
+  ASIGNADA: 'ASIGNADA',
+  SIN_ASIGNAR: 'SIN_ASIGNAR',
+  RETIRADA: 'RETIRADA',
+  EXPIRADA: 'EXPIRADA',
+} as const;
+
 /**
  * Límites de paginación
  */
@@ -0,0 +1,193 @@
+/**
+ * Llaves de firma de JWT
+ * HS256 usa los secretos compartidos de CONFIG. RS256/ES256 leen las llaves
+ * de JWT_KEYS_DIR: cada archivo <kid>.pem es una llave de verificación
+ * (privada o pública) y JWT_SIGNING_KID elige la privada con la que se firma.
+ *
+ * Rotación: agregar la llave nueva, cambiar JWT_SIGNING_KID y retirar la
+ * anterior cuando expiren los tokens que firmó (JWT_REFRESH_EXPIRES_IN)
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CONFIG } from './constants';
+
+export type AlgoritmoJwt = 'HS256' | 'RS256' | 'ES256';
+
+const ALGORITMOS: readonly AlgoritmoJwt[] = ['HS256', 'RS256', 'ES256'];
+
+const SECRETOS_POR_DEFECTO = [
+  'default_access_secret_CHANGE_ME',
+  'default_refresh_secret_CHANGE_ME',
+];
+
+/**
+ * Llavero de llaves asimétricas
+ */
+interface LlaveroJwt {
+  firma: { kid: string; llave: KeyObject };
+  verificacion: Map<string, KeyObject>;
+}
+
+let llavero: LlaveroJwt | null = null;
+
+/**
+ * Algoritmo de firma configurado
+ */
+export const obtenerAlgoritmoJwt = (): AlgoritmoJwt => {
+  const algoritmo = CONFIG.JWT_ALGORITHM as AlgoritmoJwt;
+
+  if (!ALGORITMOS.includes(algoritmo)) {
+    throw new Error(`JWT_ALGORITHM inválido: ${CONFIG.JWT_ALGORITHM} (usa ${ALGORITMOS.join(', ')})`);
+  }
+
+  return algoritmo;
+};
+
+/**
+ * Verificar que una llave corresponda al algoritmo
+ */
+const validarTipoLlave = (kid: string, llave: KeyObject, algoritmo: AlgoritmoJwt): void => {
+  const esperado = algoritmo === 'RS256' ? 'rsa' : 'ec';
+
+  if (llave.asymmetricKeyType !== esperado) {
+    throw new Error(`La llave JWT "${kid}" no es ${esperado.toUpperCase()} (requerida por ${algoritmo})`);
+  }
+
+  if (algoritmo === 'ES256' && llave.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+    throw new Error(`La llave JWT "${kid}" debe usar la curva P-256 para ES256`);
+  }
+};
+
+/**
+ * Cargar las llaves de JWT_KEYS_DIR
+ */
+const cargarLlavero = (algoritmo: AlgoritmoJwt): LlaveroJwt => {
+  const directorio = path.resolve(CONFIG.JWT_KEYS_DIR);
+
+  if (!fs.existsSync(directorio)) {
+    throw new Error(`No existe el directorio de llaves JWT: ${directorio}`);
+  }
+
+  const privadas = new Map<string, KeyObject>();
+  const verificacion = new Map<string, KeyObject>();
+
+  for (const archivo of fs.readdirSync(directorio).filter((a) => a.endsWith('.pem'))) {
+    const kid = path.basename(archivo, '.pem');
+    const pem = fs.readFileSync(path.join(directorio, archivo), 'utf8');
+
+    let publica: KeyObject;
+
+    if (pem.includes('PRIVATE KEY')) {
+      const privada = crypto.createPrivateKey(pem);
+      privadas.set(kid, privada);
+      publica = crypto.createPublicKey(privada);
+    } else {
+      publica = crypto.createPublicKey(pem);
+    }
+
+    validarTipoLlave(kid, publica, algoritmo);
+    verificacion.set(kid, publica);
+  }
+
+  const kidFirma = CONFIG.JWT_SIGNING_KID;
+  const llaveFirma = privadas.get(kidFirma);
+
+  if (!llaveFirma) {
+    throw new Error(`No se encontró la llave privada "${kidFirma}.pem" en ${directorio} (JWT_SIGNING_KID)`);
+  }
+
+  return { firma: { kid: kidFirma, llave: llaveFirma }, verificacion };
+};
+
+/**
+ * Obtener el llavero (se carga una vez)
+ */
+const obtenerLlavero = (): LlaveroJwt => {
+  if (!llavero) {
+    llavero = cargarLlavero(obtenerAlgoritmoJwt());
+  }
+
+  return llavero;
+};
+
+/**
+ * Llave y kid con los que se firma un token
+ * @param secreto - Secreto compartido a usar con HS256
+ */
+export const obtenerLlaveFirma = (secreto: string): { llave: string | KeyObject; kid?: string } => {
+  if (obtenerAlgoritmoJwt() === 'HS256') {
+    return { llave: secreto };
+  }
+
+  const { firma } = obtenerLlavero();
+
+  return { llave: firma.llave, kid: firma.kid };
+};
+
+/**
+ * Llave con la que se verifica un token según su kid
+ * @param secreto - Secreto compartido a usar con HS256
+ */
+export const obtenerLlaveVerificacion = (secreto: string, kid: string | undefined): string | KeyObject => {
+  if (obtenerAlgoritmoJwt() === 'HS256') {
+    return secreto;
+  }
+
+  const llave = kid ? obtenerLlavero().verificacion.get(kid) : undefined;
+
+  if (!llave) {
+    throw new Error('Token inválido: llave de firma desconocida');
+  }
+
+  return llave;
+};
+
+/**
+ * JWKS con las llaves públicas de verificación
+ * Con HS256 no hay nada que publicar
+ */
+export const obtenerJwks = (): { keys: Record<string, unknown>[] } => {
+  const algoritmo = obtenerAlgoritmoJwt();
+
+  if (algoritmo === 'HS256') {
+    return { keys: [] };
+  }
+
+  return {
+    keys: Array.from(obtenerLlavero().verificacion.entries()).map(([kid, llave]) => ({
+      ...llave.export({ format: 'jwk' }),
+      kid,
+      alg: algoritmo,
+      use: 'sig',
+    })),
+  };
+};
+
+/**
+ * Validar la configuración de JWT al arrancar
+ * Carga las llaves (falla si están mal configuradas) y en producción
+ * rechaza los secretos por defecto
+ */
+export const validarConfiguracionJwt = (): void => {
+  const algoritmo = obtenerAlgoritmoJwt();
+
+  if (algoritmo !== 'HS256') {
+    obtenerLlavero();
+    return;
+  }
+
+  if (CONFIG.NODE_ENV !== 'production') {
+    return;
+  }
+
+  const secretos = [CONFIG.JWT_ACCESS_SECRET, CONFIG.JWT_REFRESH_SECRET];
+
+  if (secretos.some((secreto) => SECRETOS_POR_DEFECTO.includes(secreto))) {
+    throw new Error(
+      'JWT_ACCESS_SECRET y JWT_REFRESH_SECRET deben configurarse en producción ' +
+      '(o usa JWT_ALGORITHM=RS256/ES256)'
+    );
+  }
+};
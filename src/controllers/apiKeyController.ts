@@ -0,0 +1,132 @@
+/**
+ * Controller de API keys (Admin)
+ */
+
+import { Response } from 'express';
+import { prisma } from '../config/prisma';
+import { AuthenticatedRequest, ApiResponse, CreateApiKeyDTO } from '../types';
+import { sanitizeText } from '../utils/validators';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS } from '../config/constants';
+import {
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  createBadRequestError,
+} from '../middlewares/errorHandler';
+import { crearApiKey, API_KEY_SELECT } from '../services/apiKeyService';
+
+/**
+ * Verificar que la solicitud venga de una sesión y no de otra API key
+ */
+const ensureSesionUsuario = (req: AuthenticatedRequest): void => {
+  if (!req.user) {
+    throw createUnauthorizedError();
+  }
+
+  if (req.apiKey) {
+    throw createForbiddenError(ERROR_MESSAGES.API_KEY_NO_GESTIONA);
+  }
+};
+
+/**
+ * Crear API key
+ * POST /api/api-keys
+ */
+export const createApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  ensureSesionUsuario(req);
+
+  const { nombre, scopes, expiresAt } = req.body as CreateApiKeyDTO;
+
+  // La key actúa en nombre de su creador: no puede tener más permisos que él
+  if (!scopes.every((scope) => req.user!.permisos.includes(scope))) {
+    throw createForbiddenError(ERROR_MESSAGES.API_KEY_SCOPE_NO_PERMITIDO);
+  }
+
+  const { apiKey, clave } = await crearApiKey(req.user!.id, {
+    nombre: sanitizeText(nombre),
+    scopes,
+    expiresAt: expiresAt ? new Date(expiresAt) : null,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { ...apiKey, clave },
+    message: SUCCESS_MESSAGES.API_KEY_CREATED,
+  };
+
+  res.status(HTTP_STATUS.CREATED).json(response);
+};
+
+/**
+ * Listar API keys
+ * GET /api/api-keys
+ */
+export const listApiKeys = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  ensureSesionUsuario(req);
+
+  const apiKeys = await prisma.apiKey.findMany({
+    select: {
+      ...API_KEY_SELECT,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: apiKeys,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Revocar API key
+ * DELETE /api/api-keys/:apiKeyId
+ */
+export const revokeApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  ensureSesionUsuario(req);
+
+  const apiKeyId = parseInt(req.params.apiKeyId!, 10);
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { id: apiKeyId },
+    select: { id: true, revokedAt: true },
+  });
+
+  if (!apiKey) {
+    throw createNotFoundError(ERROR_MESSAGES.API_KEY_NOT_FOUND);
+  }
+
+  if (apiKey.revokedAt) {
+    throw createBadRequestError(ERROR_MESSAGES.API_KEY_YA_REVOCADA);
+  }
+
+  // Se revoca en lugar de borrar para conservar la auditoría de sus eventos
+  await prisma.apiKey.update({
+    where: { id: apiKeyId },
+    data: { revokedAt: new Date() },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.API_KEY_REVOKED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
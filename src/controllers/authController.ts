@@ -2,13 +2,17 @@
  * Controller de Autenticación
  */
 
+import crypto from 'crypto';
 import { Response } from 'express';
 import { prisma } from '../config/prisma';
-import { AuthenticatedRequest, ApiResponse, LoginDTO, RegisterDTO, ChangePasswordDTO } from '../types';
+import { AuthenticatedRequest, ApiResponse, LoginDTO, LoginTwoFactorDTO, RegisterDTO, ChangePasswordDTO, ForgotPasswordDTO, ResetPasswordDTO, VerifyEmailDTO, ResendVerificationDTO, Role } from '../types';
 import { 
   generateAccessToken, 
   generateRefreshToken, 
   verifyRefreshToken,
+  generateTwoFactorToken,
+  verifyTwoFactorToken,
+  hashRefreshToken,
   calculateExpirationDate 
 } from '../utils/jwt';
 import { 
@@ -21,14 +25,109 @@ import {
   CONFIG, 
   ERROR_MESSAGES, 
   SUCCESS_MESSAGES, 
-  HTTP_STATUS 
+  HTTP_STATUS,
+  MODOS_REGISTRO
 } from '../config/constants';
 import {   
   createConflictError, 
   createUnauthorizedError,
   createNotFoundError,
-  createBadRequestError 
+  createBadRequestError,
+  createForbiddenError
 } from '../middlewares/errorHandler';
+import { emitirTokenUsuario, consumirTokenUsuario } from '../services/tokenUsuarioService';
+import { enviarCorreo } from '../services/correoService';
+import {
+  clavesLogin,
+  registrarIntentoLogin,
+  confirmarLoginExitoso
+} from '../services/bloqueoLoginService';
+import { verificarSegundoFactor, requiere2FA } from '../services/dosFactoresService';
+
+// Hash de relleno: el login tarda lo mismo exista o no la cuenta
+let hashRelleno: Promise<string> | null = null;
+
+const obtenerHashRelleno = (): Promise<string> => {
+  if (!hashRelleno) {
+    hashRelleno = hashPassword(crypto.randomBytes(16).toString('hex'));
+  }
+
+  return hashRelleno;
+};
+
+/**
+ * Enviar el enlace de verificación de email
+ * Un fallo de envío no interrumpe la solicitud: se puede reenviar después
+ */
+const enviarCorreoVerificacion = async (user: { id: number; name: string; email: string }) => {
+  const token = await emitirTokenUsuario(
+    user.id,
+    'VERIFICACION_EMAIL',
+    CONFIG.EMAIL_VERIFICATION_TTL_HOURS * 60
+  );
+  const enlace = `${CONFIG.FRONTEND_URL}/verify-email?token=${token}`;
+
+  try {
+    await enviarCorreo({
+      to: user.email,
+      subject: 'Verifica tu email',
+      text:
+        `Hola ${user.name},\n\n` +
+        `Confirma tu email con este enlace (válido por ${CONFIG.EMAIL_VERIFICATION_TTL_HOURS} horas):\n\n` +
+        `${enlace}\n\n` +
+        `Si no creaste una cuenta, ignora este correo.`,
+    });
+  } catch (error) {
+    console.error('❌ Error al enviar correo de verificación:', error);
+  }
+};
+
+/**
+ * Crear la sesión y los tokens de un login completado
+ */
+const iniciarSesion = async (
+  req: AuthenticatedRequest,
+  user: {
+    id: number;
+    name: string;
+    email: string;
+    avatar: string | null;
+    role: Role;
+    totpEnabledAt: Date | null;
+  }
+) => {
+  // Generar tokens (el ID de sesión va dentro del refresh token)
+  const sessionId = crypto.randomUUID();
+  const accessToken = generateAccessToken(user.id, user.email, user.role);
+  const refreshToken = generateRefreshToken(user.id, sessionId);
+
+  // Crear sesión guardando solo el hash del refresh token
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      userAgent: req.headers['user-agent'] || null,
+      ipAddress: req.ip || null,
+      expiresAt: calculateExpirationDate(CONFIG.JWT_REFRESH_EXPIRES_IN),
+    },
+  });
+
+  return {
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar,
+      role: user.role,
+      totpEnabled: user.totpEnabledAt !== null,
+      // El admin debe activar 2FA antes de usar rutas de administración
+      requiereActivar2FA: requiere2FA(user.role) && user.totpEnabledAt === null,
+    },
+    accessToken,
+    refreshToken,
+  };
+};
 
 /**
  * Registrar nuevo usuario
@@ -38,6 +137,11 @@ export const register = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
+  // Con registro por invitación o cerrado, las cuentas las da de alta un admin
+  if (CONFIG.REGISTRATION_MODE !== MODOS_REGISTRO.OPEN) {
+    throw createForbiddenError(ERROR_MESSAGES.REGISTRO_CERRADO);
+  }
+
   const { name, email, password } = req.body as RegisterDTO;
 
   // Sanitizar inputs
@@ -62,20 +166,29 @@ export const register = async (
       name: sanitizedName,
       email: sanitizedEmail,
       password: hashedPassword,
+      // Sin verificación configurada, el email se da por verificado
+      emailVerifiedAt: CONFIG.EMAIL_VERIFICATION_REQUIRED ? null : new Date(),
     },
     select: {
       id: true,
       name: true,
       email: true,
       role: true,
+      emailVerifiedAt: true,
       createdAt: true,
     },
   });
 
+  if (CONFIG.EMAIL_VERIFICATION_REQUIRED) {
+    await enviarCorreoVerificacion(user);
+  }
+
   const response: ApiResponse = {
     success: true,
     data: user,
-    message: SUCCESS_MESSAGES.REGISTER_SUCCESS,
+    message: CONFIG.EMAIL_VERIFICATION_REQUIRED
+      ? SUCCESS_MESSAGES.REGISTER_VERIFICATION_SENT
+      : SUCCESS_MESSAGES.REGISTER_SUCCESS,
   };
 
   res.status(HTTP_STATUS.CREATED).json(response);
@@ -94,61 +207,97 @@ export const login = async (
   // Sanitizar email
   const sanitizedEmail = sanitizeEmail(email);
 
+  // Backoff / bloqueo temporal por cuenta e IP (el intento se cuenta antes de comparar)
+  const claves = clavesLogin(sanitizedEmail, req.ip);
+  await registrarIntentoLogin(claves);
+
   // Buscar usuario
   const user = await prisma.user.findUnique({
     where: { email: sanitizedEmail },
   });
 
-  if (!user) {
+  // Siempre comparar contra un hash (real o de relleno) para igualar tiempos
+  const isPasswordValid = await comparePassword(
+    password,
+    user ? user.password : await obtenerHashRelleno()
+  );
+
+  // Cuenta inexistente, inactiva o contraseña incorrecta: misma respuesta
+  if (!user || !user.isActive || !isPasswordValid) {
     throw createUnauthorizedError(ERROR_MESSAGES.INVALID_CREDENTIALS);
   }
 
-  // Verificar que el usuario esté activo
-  if (!user.isActive) {
-    throw createUnauthorizedError(ERROR_MESSAGES.USER_INACTIVE);
+  await confirmarLoginExitoso(claves);
+
+  // Verificar el email (después de la contraseña para no revelar cuentas)
+  if (CONFIG.EMAIL_VERIFICATION_REQUIRED && !user.emailVerifiedAt) {
+    throw createForbiddenError(ERROR_MESSAGES.EMAIL_NOT_VERIFIED);
   }
 
-  // Verificar contraseña
-  const isPasswordValid = await comparePassword(password, user.password);
+  // Con 2FA activo, la contraseña solo da un token de desafío
+  if (user.totpEnabledAt) {
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        requiere2FA: true,
+        tokenDesafio: generateTwoFactorToken(user.id),
+      },
+      message: SUCCESS_MESSAGES.TOTP_CHALLENGE,
+    };
 
-  if (!isPasswordValid) {
-    throw createUnauthorizedError(ERROR_MESSAGES.INVALID_CREDENTIALS);
+    res.status(HTTP_STATUS.OK).json(response);
+    return;
   }
 
-  // Crear sesión
-  const session = await prisma.session.create({
-    data: {
-      userId: user.id,
-      refreshToken: '', // Se actualizará después
-      userAgent: req.headers['user-agent'] || null,
-      ipAddress: req.ip || null,
-      expiresAt: calculateExpirationDate(CONFIG.JWT_REFRESH_EXPIRES_IN),
-    },
-  });
+  const response: ApiResponse = {
+    success: true,
+    data: await iniciarSesion(req, user),
+    message: SUCCESS_MESSAGES.LOGIN_SUCCESS,
+  };
 
-  // Generar tokens
-  const accessToken = generateAccessToken(user.id, user.email, user.role);
-  const refreshToken = generateRefreshToken(user.id, session.id);
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Login - segundo paso (2FA)
+ * POST /api/auth/login/2fa
+ */
+export const loginTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { tokenDesafio, codigo, codigoRecuperacion } = req.body as LoginTwoFactorDTO;
 
-  // Actualizar sesión con el refresh token
-  await prisma.session.update({
-    where: { id: session.id },
-    data: { refreshToken },
+  let payload;
+  try {
+    payload = verifyTwoFactorToken(tokenDesafio);
+  } catch (error) {
+    throw createUnauthorizedError(ERROR_MESSAGES.TOTP_CHALLENGE_INVALID);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: payload.userId },
   });
 
+  if (!user || !user.isActive || !user.totpEnabledAt) {
+    throw createUnauthorizedError(ERROR_MESSAGES.TOTP_CHALLENGE_INVALID);
+  }
+
+  // Los códigos también cuentan para el bloqueo de la cuenta
+  const claves = clavesLogin(user.email, req.ip);
+  await registrarIntentoLogin(claves);
+
+  const valido = await verificarSegundoFactor(user, { codigo, codigoRecuperacion });
+
+  if (!valido) {
+    throw createUnauthorizedError(ERROR_MESSAGES.TOTP_CODE_INVALID);
+  }
+
+  await confirmarLoginExitoso(claves);
+
   const response: ApiResponse = {
     success: true,
-    data: {
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        avatar: user.avatar, 
-        role: user.role,
-      },
-      accessToken,
-      refreshToken,
-    },
+    data: await iniciarSesion(req, user),
     message: SUCCESS_MESSAGES.LOGIN_SUCCESS,
   };
 
@@ -156,8 +305,10 @@ export const login = async (
 };
 
 /**
- * Refresh Token
+ * Refresh Token (con rotación)
  * POST /api/auth/refresh
+ * Cada llamada entrega un refresh token nuevo e invalida el anterior.
+ * Si llega un token ya rotado, se revoca toda la sesión (familia)
  */
 export const refresh = async (
   req: AuthenticatedRequest,
@@ -173,12 +324,9 @@ export const refresh = async (
     throw createUnauthorizedError(ERROR_MESSAGES.TOKEN_INVALID);
   }
 
-  // Buscar sesión en la base de datos
+  // Buscar la sesión (familia) a la que pertenece el token
   const session = await prisma.session.findUnique({
-    where: { 
-      id: payload.sessionId,
-      refreshToken,
-    },
+    where: { id: payload.sessionId },
     include: {
       user: {
         select: {
@@ -197,6 +345,15 @@ export const refresh = async (
     throw createUnauthorizedError(ERROR_MESSAGES.SESSION_NOT_FOUND);
   }
 
+  const refreshTokenHash = hashRefreshToken(refreshToken);
+
+  // Token firmado por nosotros pero que ya no es el vigente: fue rotado y
+  // alguien lo está reutilizando. Revocar la familia completa
+  if (session.refreshTokenHash !== refreshTokenHash) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    throw createUnauthorizedError(ERROR_MESSAGES.REFRESH_TOKEN_REUSED);
+  }
+
   // Verificar que el usuario esté activo
   if (!session.user.isActive) {
     throw createUnauthorizedError(ERROR_MESSAGES.USER_INACTIVE);
@@ -206,7 +363,24 @@ export const refresh = async (
   if (new Date() > session.expiresAt) {
     // Eliminar sesión expirada
     await prisma.session.delete({ where: { id: session.id } });
-    throw createUnauthorizedError('Sesión expirada');
+    throw createUnauthorizedError(ERROR_MESSAGES.SESSION_EXPIRED);
+  }
+
+  // Rotar: el nuevo token reemplaza al anterior solo si nadie lo rotó antes
+  // (dos refresh simultáneos con el mismo token cuentan como reutilización)
+  const newRefreshToken = generateRefreshToken(session.user.id, session.id);
+
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash },
+    data: {
+      refreshTokenHash: hashRefreshToken(newRefreshToken),
+      rotatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    throw createUnauthorizedError(ERROR_MESSAGES.REFRESH_TOKEN_REUSED);
   }
 
   // Generar nuevo access token
@@ -216,10 +390,12 @@ export const refresh = async (
     session.user.role
   );
 
+  // La sesión conserva su expiración original (vida máxima de la familia)
   const response: ApiResponse = {
     success: true,
     data: {
       accessToken: newAccessToken,
+      refreshToken: newRefreshToken,
     },
   };
 
@@ -238,7 +414,7 @@ export const logout = async (
 
   // Eliminar sesión de la base de datos
   await prisma.session.deleteMany({
-    where: { refreshToken },
+    where: { refreshTokenHash: hashRefreshToken(refreshToken) },
   });
 
   const response: ApiResponse = {
@@ -249,6 +425,158 @@ export const logout = async (
   res.status(HTTP_STATUS.OK).json(response);
 };
 
+/**
+ * Verificar email con el token recibido por correo
+ * POST /api/auth/verify-email
+ */
+export const verifyEmail = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { token } = req.body as VerifyEmailDTO;
+
+  const user = await prisma.$transaction(async (tx) => {
+    const userId = await consumirTokenUsuario(tx, 'VERIFICACION_EMAIL', token);
+
+    if (userId === null) {
+      throw createBadRequestError(ERROR_MESSAGES.VERIFICATION_TOKEN_INVALID);
+    }
+
+    return tx.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+      select: {
+        id: true,
+        email: true,
+        emailVerifiedAt: true,
+      },
+    });
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: user,
+    message: SUCCESS_MESSAGES.EMAIL_VERIFIED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Reenviar enlace de verificación
+ * POST /api/auth/resend-verification
+ * Responde igual exista o no el email
+ */
+export const resendVerification = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { email } = req.body as ResendVerificationDTO;
+
+  const user = await prisma.user.findUnique({
+    where: { email: sanitizeEmail(email) },
+    select: { id: true, name: true, email: true, isActive: true, emailVerifiedAt: true },
+  });
+
+  if (user && user.isActive && !user.emailVerifiedAt) {
+    await enviarCorreoVerificacion(user);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.VERIFICATION_RESENT,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Solicitar restablecimiento de contraseña
+ * POST /api/auth/forgot-password
+ * Responde igual exista o no el email, para no revelar cuentas registradas
+ */
+export const forgotPassword = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { email } = req.body as ForgotPasswordDTO;
+
+  const user = await prisma.user.findUnique({
+    where: { email: sanitizeEmail(email) },
+    select: { id: true, name: true, email: true, isActive: true },
+  });
+
+  if (user && user.isActive) {
+    const token = await emitirTokenUsuario(
+      user.id,
+      'RESET_PASSWORD',
+      CONFIG.PASSWORD_RESET_TTL_MINUTES
+    );
+    const enlace = `${CONFIG.FRONTEND_URL}/reset-password?token=${token}`;
+
+    try {
+      await enviarCorreo({
+        to: user.email,
+        subject: 'Restablecer contraseña',
+        text:
+          `Hola ${user.name},\n\n` +
+          `Recibimos una solicitud para restablecer tu contraseña. ` +
+          `Usa este enlace (válido por ${CONFIG.PASSWORD_RESET_TTL_MINUTES} minutos):\n\n` +
+          `${enlace}\n\n` +
+          `Si no la solicitaste, ignora este correo.`,
+      });
+    } catch (error) {
+      // No revelar el fallo al cliente: la respuesta debe ser la misma siempre
+      console.error('❌ Error al enviar correo de restablecimiento:', error);
+    }
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.PASSWORD_RESET_REQUESTED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Restablecer contraseña
+ * POST /api/auth/reset-password
+ */
+export const resetPassword = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { token, newPassword } = req.body as ResetPasswordDTO;
+
+  const hashedPassword = await hashPassword(newPassword);
+
+  // Consumir el token, cambiar la contraseña y cerrar todas las sesiones de forma atómica
+  await prisma.$transaction(async (tx) => {
+    const userId = await consumirTokenUsuario(tx, 'RESET_PASSWORD', token);
+
+    if (userId === null) {
+      throw createBadRequestError(ERROR_MESSAGES.RESET_TOKEN_INVALID);
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword },
+    });
+
+    await tx.session.deleteMany({
+      where: { userId },
+    });
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.PASSWORD_RESET_SUCCESS,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
 /**
  * Obtener perfil del usuario autenticado
  * GET /api/auth/me
@@ -270,6 +598,7 @@ export const getProfile = async (
       avatar: true,
       role: true,
       isActive: true,
+      emailVerifiedAt: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -369,7 +698,7 @@ export const changePassword = async (
     await prisma.session.deleteMany({
       where: {
         userId: user.id,
-        refreshToken: { not: refreshToken },
+        refreshTokenHash: { not: hashRefreshToken(refreshToken) },
       },
     });
   } else {
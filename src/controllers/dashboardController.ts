@@ -8,6 +8,7 @@ import { AuthenticatedRequest, ApiResponse, UserReservaSummary, PaginatedRespons
 import { HTTP_STATUS, STATUS_RESERVA } from '../config/constants';
 import { normalizePagination, calculateTotalPages, parseDateWithoutTimezone } from '../utils/validators';
 import { createNotFoundError } from '../middlewares/errorHandler';
+import { STATUS_PERIODO_VIGENTES } from '../services/cicloPeriodoService';
 
 /**
  * Obtener estadísticas del dashboard
@@ -19,7 +20,7 @@ export const getDashboardStats = async (
 ): Promise<void> => {
   // Obtener TODOS los periodos activos
   const periodosActivos = await prisma.periodoLibras.findMany({
-    where: { isActive: true },
+    where: { status: { in: STATUS_PERIODO_VIGENTES } },
     orderBy: { fechaEnvio: 'asc' },
     include: {
       reservas: {
@@ -119,7 +120,7 @@ const periodosConStats = periodosActivos.map(periodo => {
         id: periodo.id,
         librasTotales: periodo.librasTotales,
         fechaEnvio: periodo.fechaEnvio.toISOString().split('T')[0]!,
-        isActive: periodo.isActive,
+        status: periodo.status,
       },
       librasReservadas: librasReservadas.toFixed(2),
       librasDisponibles: librasDisponibles.toFixed(2),
@@ -265,7 +266,7 @@ export const getReservasHistoricas = async (
   // Buscar reservas históricas de ese periodo
   const reservasHistoricas = await prisma.historicoReserva.findMany({
     where: {
-      periodoFechaEnvio: historicoPeriodo.fechaEnvio,
+      historicoPeriodoId: historicoPeriodo.id,
     },
     orderBy: { fechaArchivado: 'desc' },
   });
@@ -316,6 +317,12 @@ export const getReportes = async (
     ...(estado ? { estado: estado as string } : {}),
   };
 
+  // Si hay filtro de periodo específico, aplicarlo
+  // (periodoId es el ID del periodo original, no el del archivo histórico)
+  if (periodoId) {
+    reservasHistoricasQuery.periodoOriginalId = parseInt(periodoId as string, 10);
+  }
+
   const reservasHistoricas = await prisma.historicoReserva.findMany({
     where: reservasHistoricasQuery,
   });
@@ -358,6 +365,7 @@ export const getReportes = async (
     fecha: Date;
     estado: string;
     periodoFechaEnvio: Date;
+    periodoKey: string; // Periodo histórico o activo al que pertenece
     status: string;
   }
 
@@ -371,6 +379,7 @@ export const getReportes = async (
       fecha: r.fecha,
       estado: r.estado,
       periodoFechaEnvio: r.periodoFechaEnvio,
+      periodoKey: `historico-${r.historicoPeriodoId}`,
       status: r.status,
     })),
     // Reservas activas
@@ -382,6 +391,7 @@ export const getReportes = async (
       fecha: r.fecha,
       estado: r.estado,
       periodoFechaEnvio: r.periodo.fechaEnvio,
+      periodoKey: `activo-${r.periodoId}`,
       status: r.status,
     })),
   ];
@@ -411,7 +421,7 @@ export const getReportes = async (
     const usuario = usuariosMap.get(reserva.userId);
     usuario.totalLibras += reserva.libras;
     usuario.totalReservas++;
-    usuario.periodos.add(reserva.periodoFechaEnvio.toISOString());
+    usuario.periodos.add(reserva.periodoKey);
   });
 
   const porUsuario = Array.from(usuariosMap.values())
@@ -451,7 +461,7 @@ export const getReportes = async (
     mes.totalLibras += reserva.libras;
     mes.totalReservas++;
     mes.usuarios.add(reserva.userId);
-    mes.periodos.add(reserva.periodoFechaEnvio.toISOString());
+    mes.periodos.add(reserva.periodoKey);
   });
 
   const porMes = Array.from(mesesMap.values())
@@ -492,7 +502,7 @@ export const getReportes = async (
   });
 
   // Obtener periodos activos con filtros
-  const periodosActivosQuery: any = { isActive: true };
+  const periodosActivosQuery: any = { status: { in: STATUS_PERIODO_VIGENTES } };
   
   if (startDate || endDate) {
     periodosActivosQuery.fechaEnvio = {
@@ -509,22 +519,34 @@ export const getReportes = async (
     where: periodosActivosQuery,
   });
 
+  // Reservas agrupadas por su periodo (relación, no fecha de envío)
+  const reservasPorPeriodo = new Map<string, ReservaUnificada[]>();
+
+  todasLasReservas.forEach(reserva => {
+    const reservas = reservasPorPeriodo.get(reserva.periodoKey) ?? [];
+    reservas.push(reserva);
+    reservasPorPeriodo.set(reserva.periodoKey, reservas);
+  });
+
   // Combinar periodos históricos
-  const porPeriodo = periodosHistoricos.map(p => ({
-    periodoId: p.id,
-    fechaEnvio: p.fechaEnvio.toISOString().split('T')[0]!,
-    librasTotales: p.librasTotales,
-    librasReservadas: parseFloat(p.librasReservadas.toString()).toFixed(2),
-    porcentajeOcupacion: (parseFloat(p.librasReservadas.toString()) / p.librasTotales) * 100,
-    totalReservas: p.totalReservas,
-    totalUsuarios: p.totalUsuarios,
-  }));
+  const porPeriodo = periodosHistoricos.map(p => {
+    const reservasDelPeriodo = reservasPorPeriodo.get(`historico-${p.id}`) ?? [];
+    const librasReservadas = reservasDelPeriodo.reduce((sum, r) => sum + r.libras, 0);
+
+    return {
+      periodoId: p.id,
+      fechaEnvio: p.fechaEnvio.toISOString().split('T')[0]!,
+      librasTotales: p.librasTotales,
+      librasReservadas: librasReservadas.toFixed(2),
+      porcentajeOcupacion: (librasReservadas / p.librasTotales) * 100,
+      totalReservas: reservasDelPeriodo.length,
+      totalUsuarios: new Set(reservasDelPeriodo.map(r => r.userId)).size,
+    };
+  });
 
   // Agregar periodos activos con sus estadísticas
   for (const periodoActivo of periodosActivos) {
-    const reservasDelPeriodo = todasLasReservas.filter(r => 
-      r.periodoFechaEnvio.getTime() === periodoActivo.fechaEnvio.getTime()
-    );
+    const reservasDelPeriodo = reservasPorPeriodo.get(`activo-${periodoActivo.id}`) ?? [];
 
     const librasReservadas = reservasDelPeriodo.reduce((sum, r) => sum + r.libras, 0);
     const usuariosUnicos = new Set(reservasDelPeriodo.map(r => r.userId)).size;
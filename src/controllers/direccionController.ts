@@ -0,0 +1,196 @@
+/**
+ * Controller de Direcciones (libreta del usuario autenticado)
+ */
+
+import { Response } from 'express';
+import { prisma } from '../config/prisma';
+import { AuthenticatedRequest, ApiResponse, CreateDireccionDTO, UpdateDireccionDTO } from '../types';
+import { sanitizeText } from '../utils/validators';
+import { SUCCESS_MESSAGES, HTTP_STATUS } from '../config/constants';
+import { createBadRequestError } from '../middlewares/errorHandler';
+import { DIRECCION_SELECT, obtenerDireccionUsuario, marcarPredeterminada } from '../services/direccionService';
+
+const CAMPOS_TEXTO = [
+  'alias',
+  'destinatario',
+  'telefono',
+  'calle',
+  'colonia',
+  'ciudad',
+  'estado',
+  'codigoPostal',
+  'referencias',
+] as const;
+
+/**
+ * Sanitizar los campos de texto presentes en el body
+ * null o vacío borra los campos opcionales
+ */
+const sanitizarDireccion = (dto: UpdateDireccionDTO) => {
+  const data: Record<string, string | null> = {};
+
+  for (const campo of CAMPOS_TEXTO) {
+    const valor = dto[campo];
+    if (valor !== undefined) {
+      data[campo] = valor ? sanitizeText(valor) : null;
+    }
+  }
+
+  return data;
+};
+
+/**
+ * Listar direcciones (la predeterminada primero)
+ * GET /api/profile/addresses
+ */
+export const listDirecciones = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const direcciones = await prisma.direccion.findMany({
+    where: { userId: req.user.id },
+    select: DIRECCION_SELECT,
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: direcciones,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Agregar dirección
+ * POST /api/profile/addresses
+ */
+export const createDireccion = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const userId = req.user.id;
+  const dto = req.body as CreateDireccionDTO;
+
+  const direccion = await prisma.$transaction(async (tx) => {
+    const total = await tx.direccion.count({ where: { userId } });
+
+    const creada = await tx.direccion.create({
+      data: {
+        alias: sanitizeText(dto.alias),
+        destinatario: sanitizeText(dto.destinatario),
+        telefono: dto.telefono ? sanitizeText(dto.telefono) : null,
+        calle: sanitizeText(dto.calle),
+        colonia: dto.colonia ? sanitizeText(dto.colonia) : null,
+        ciudad: sanitizeText(dto.ciudad),
+        estado: sanitizeText(dto.estado),
+        codigoPostal: sanitizeText(dto.codigoPostal),
+        referencias: dto.referencias ? sanitizeText(dto.referencias) : null,
+        userId,
+      },
+    });
+
+    // La primera dirección queda como predeterminada
+    if (dto.isDefault || total === 0) {
+      await marcarPredeterminada(tx, userId, creada.id);
+    }
+
+    return tx.direccion.findUniqueOrThrow({
+      where: { id: creada.id },
+      select: DIRECCION_SELECT,
+    });
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: direccion,
+    message: SUCCESS_MESSAGES.DIRECCION_CREATED,
+  };
+
+  res.status(HTTP_STATUS.CREATED).json(response);
+};
+
+/**
+ * Actualizar dirección
+ * PATCH /api/profile/addresses/:direccionId
+ * Las reservas ya creadas conservan la copia que tenían
+ */
+export const updateDireccion = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const userId = req.user.id;
+  const direccionId = parseInt(req.params.direccionId!, 10);
+  const dto = req.body as UpdateDireccionDTO;
+
+  const direccion = await prisma.$transaction(async (tx) => {
+    await obtenerDireccionUsuario(tx, userId, direccionId);
+
+    await tx.direccion.update({
+      where: { id: direccionId },
+      data: {
+        ...sanitizarDireccion(dto),
+        ...(dto.isDefault === false ? { isDefault: false } : {}),
+      },
+    });
+
+    if (dto.isDefault) {
+      await marcarPredeterminada(tx, userId, direccionId);
+    }
+
+    return tx.direccion.findUniqueOrThrow({
+      where: { id: direccionId },
+      select: DIRECCION_SELECT,
+    });
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: direccion,
+    message: SUCCESS_MESSAGES.DIRECCION_UPDATED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Eliminar dirección
+ * DELETE /api/profile/addresses/:direccionId
+ */
+export const deleteDireccion = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const direccion = await obtenerDireccionUsuario(
+    prisma,
+    req.user.id,
+    parseInt(req.params.direccionId!, 10)
+  );
+
+  await prisma.direccion.delete({
+    where: { id: direccion.id },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.DIRECCION_DELETED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
@@ -0,0 +1,208 @@
+/**
+ * Controller de verificación en dos pasos (2FA)
+ */
+
+import { Response } from 'express';
+import { prisma } from '../config/prisma';
+import { AuthenticatedRequest, ApiResponse, CodigoTotpDTO, DisableTwoFactorDTO } from '../types';
+import { comparePassword } from '../utils/validators';
+import { generarSecretoTotp, construirUriOtpauth, verificarCodigoTotp } from '../utils/totp';
+import { CONFIG, ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS } from '../config/constants';
+import {
+  createUnauthorizedError,
+  createNotFoundError,
+  createBadRequestError,
+  createConflictError,
+  createForbiddenError,
+} from '../middlewares/errorHandler';
+import {
+  generarCodigosRecuperacion,
+  consumirCodigoTotp,
+  verificarSegundoFactor,
+  requiere2FA,
+} from '../services/dosFactoresService';
+
+/**
+ * Obtener el usuario autenticado con sus datos de 2FA
+ */
+const obtenerUsuario2FA = async (req: AuthenticatedRequest) => {
+  if (!req.user) {
+    throw createUnauthorizedError();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.id },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      password: true,
+      totpSecret: true,
+      totpEnabledAt: true,
+    },
+  });
+
+  if (!user) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  return user;
+};
+
+/**
+ * Iniciar la activación de 2FA: generar secreto y URI otpauth
+ * POST /api/auth/2fa/setup
+ */
+export const setupTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const user = await obtenerUsuario2FA(req);
+
+  if (user.totpEnabledAt) {
+    throw createConflictError(ERROR_MESSAGES.TOTP_ALREADY_ENABLED);
+  }
+
+  // El secreto queda pendiente hasta confirmarlo con un código
+  const secreto = generarSecretoTotp();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secreto, totpUltimoPaso: null },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      secreto,
+      otpauthUri: construirUriOtpauth(secreto, user.email, CONFIG.TOTP_ISSUER),
+    },
+    message: SUCCESS_MESSAGES.TOTP_SETUP,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Confirmar el secreto con un código y activar 2FA
+ * POST /api/auth/2fa/enable
+ */
+export const enableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { codigo } = req.body as CodigoTotpDTO;
+  const user = await obtenerUsuario2FA(req);
+
+  if (user.totpEnabledAt) {
+    throw createConflictError(ERROR_MESSAGES.TOTP_ALREADY_ENABLED);
+  }
+
+  if (!user.totpSecret) {
+    throw createBadRequestError(ERROR_MESSAGES.TOTP_SETUP_REQUIRED);
+  }
+
+  const paso = verificarCodigoTotp(user.totpSecret, codigo);
+
+  if (paso === null) {
+    throw createBadRequestError(ERROR_MESSAGES.TOTP_CODE_INVALID);
+  }
+
+  const codigosRecuperacion = await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date(), totpUltimoPaso: paso },
+    });
+
+    return generarCodigosRecuperacion(tx, user.id);
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: { codigosRecuperacion },
+    message: SUCCESS_MESSAGES.TOTP_ENABLED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Desactivar 2FA (requiere contraseña y un código)
+ * POST /api/auth/2fa/disable
+ */
+export const disableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { password, codigo, codigoRecuperacion } = req.body as DisableTwoFactorDTO;
+  const user = await obtenerUsuario2FA(req);
+
+  if (!user.totpEnabledAt) {
+    throw createBadRequestError(ERROR_MESSAGES.TOTP_NOT_ENABLED);
+  }
+
+  if (requiere2FA(user.role)) {
+    throw createForbiddenError(ERROR_MESSAGES.TOTP_REQUIRED_ADMIN);
+  }
+
+  const isPasswordValid = await comparePassword(password, user.password);
+
+  if (!isPasswordValid) {
+    throw createBadRequestError('Contraseña actual incorrecta');
+  }
+
+  const valido = await verificarSegundoFactor(user, { codigo, codigoRecuperacion });
+
+  if (!valido) {
+    throw createBadRequestError(ERROR_MESSAGES.TOTP_CODE_INVALID);
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: null, totpEnabledAt: null, totpUltimoPaso: null },
+    }),
+    prisma.codigoRecuperacion.deleteMany({ where: { userId: user.id } }),
+  ]);
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.TOTP_DISABLED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Regenerar códigos de recuperación (invalida los anteriores)
+ * POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { codigo } = req.body as CodigoTotpDTO;
+  const user = await obtenerUsuario2FA(req);
+
+  if (!user.totpEnabledAt) {
+    throw createBadRequestError(ERROR_MESSAGES.TOTP_NOT_ENABLED);
+  }
+
+  const valido = await consumirCodigoTotp(user, codigo);
+
+  if (!valido) {
+    throw createBadRequestError(ERROR_MESSAGES.TOTP_CODE_INVALID);
+  }
+
+  const codigosRecuperacion = await prisma.$transaction((tx) =>
+    generarCodigosRecuperacion(tx, user.id)
+  );
+
+  const response: ApiResponse = {
+    success: true,
+    data: { codigosRecuperacion },
+    message: SUCCESS_MESSAGES.TOTP_RECOVERY_REGENERATED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
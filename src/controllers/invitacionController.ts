@@ -0,0 +1,257 @@
+/**
+ * Controller de Invitaciones
+ */
+
+import { Response } from 'express';
+import { prisma } from '../config/prisma';
+import { AuthenticatedRequest, ApiResponse, AcceptInvitacionDTO, CreateInvitacionDTO, PaginatedResponse } from '../types';
+import { hashPassword, sanitizeEmail, sanitizeText, normalizePagination, calculateTotalPages } from '../utils/validators';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, ROLES, STATUS_INVITACION } from '../config/constants';
+import {
+  createBadRequestError,
+  createConflictError,
+  createForbiddenError,
+  createNotFoundError,
+} from '../middlewares/errorHandler';
+import {
+  generarTokenInvitacion,
+  validarInvitacionesActivas,
+  statusInvitacion,
+  filtroStatusInvitacion,
+  enviarCorreoInvitacion,
+  aceptarInvitacion,
+} from '../services/invitacionService';
+
+const INVITACION_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  acceptedAt: true,
+  revokedAt: true,
+  userId: true,
+  createdAt: true,
+  invitedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+/**
+ * Buscar una invitación pendiente por ID
+ */
+const obtenerInvitacionPendiente = async (invitacionId: string | undefined) => {
+  if (!invitacionId) {
+    throw createBadRequestError('ID de invitación requerido');
+  }
+
+  const invitacion = await prisma.invitacion.findUnique({
+    where: { id: parseInt(invitacionId, 10) },
+  });
+
+  if (!invitacion) {
+    throw createNotFoundError(ERROR_MESSAGES.INVITACION_NOT_FOUND);
+  }
+
+  if (invitacion.acceptedAt || invitacion.revokedAt) {
+    throw createBadRequestError(ERROR_MESSAGES.INVITACION_NO_PENDIENTE);
+  }
+
+  return invitacion;
+};
+
+/**
+ * Invitar a un usuario
+ * POST /api/users/invitations
+ */
+export const createInvitacion = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  validarInvitacionesActivas();
+
+  const { email, role } = req.body as CreateInvitacionDTO;
+  const sanitizedEmail = sanitizeEmail(email);
+  const rol = role || ROLES.USUARIO;
+
+  // Solo un ADMIN_PRINCIPAL puede invitar a otro ADMIN_PRINCIPAL
+  if (rol === ROLES.ADMIN_PRINCIPAL && req.user!.role !== ROLES.ADMIN_PRINCIPAL) {
+    throw createForbiddenError(ERROR_MESSAGES.ASIGNAR_ADMIN_SOLO_ADMIN);
+  }
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: sanitizedEmail },
+    select: { id: true },
+  });
+
+  if (existingUser) {
+    throw createConflictError(ERROR_MESSAGES.EMAIL_ALREADY_EXISTS);
+  }
+
+  const pendiente = await prisma.invitacion.findFirst({
+    where: { email: sanitizedEmail, ...filtroStatusInvitacion(STATUS_INVITACION.PENDIENTE) },
+    select: { id: true },
+  });
+
+  if (pendiente) {
+    throw createConflictError(ERROR_MESSAGES.INVITACION_PENDIENTE_EXISTE);
+  }
+
+  const { token, tokenHash, expiresAt } = generarTokenInvitacion();
+
+  const invitacion = await prisma.invitacion.create({
+    data: {
+      email: sanitizedEmail,
+      role: rol,
+      tokenHash,
+      expiresAt,
+      invitedById: req.user!.id,
+    },
+    select: INVITACION_SELECT,
+  });
+
+  await enviarCorreoInvitacion(invitacion, token, req.user!.name);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { ...invitacion, status: statusInvitacion(invitacion) },
+    message: SUCCESS_MESSAGES.INVITACION_SENT,
+  };
+
+  res.status(HTTP_STATUS.CREATED).json(response);
+};
+
+/**
+ * Listar invitaciones
+ * GET /api/users/invitations
+ */
+export const listInvitaciones = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { page, limit, status, search } = req.query;
+
+  // Normalizar paginación
+  const pagination = normalizePagination(page as string, limit as string);
+
+  // Construir filtros
+  const where: any = {};
+
+  if (status) {
+    Object.assign(where, filtroStatusInvitacion(status as string));
+  }
+
+  if (search) {
+    where.email = { contains: search as string };
+  }
+
+  const total = await prisma.invitacion.count({ where });
+
+  const invitaciones = await prisma.invitacion.findMany({
+    where,
+    select: INVITACION_SELECT,
+    skip: pagination.skip,
+    take: pagination.limit,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const data = invitaciones.map((invitacion) => ({
+    ...invitacion,
+    status: statusInvitacion(invitacion),
+  }));
+
+  const response: PaginatedResponse<typeof data[0]> = {
+    success: true,
+    data,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: calculateTotalPages(total, pagination.limit),
+    },
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Reenviar invitación (nuevo enlace y nueva expiración)
+ * POST /api/users/invitations/:invitacionId/resend
+ */
+export const resendInvitacion = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  validarInvitacionesActivas();
+
+  const pendiente = await obtenerInvitacionPendiente(req.params.invitacionId);
+
+  // El enlace anterior deja de funcionar al cambiar el hash
+  const { token, tokenHash, expiresAt } = generarTokenInvitacion();
+
+  const invitacion = await prisma.invitacion.update({
+    where: { id: pendiente.id },
+    data: { tokenHash, expiresAt },
+    select: INVITACION_SELECT,
+  });
+
+  await enviarCorreoInvitacion(invitacion, token, req.user!.name);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { ...invitacion, status: statusInvitacion(invitacion) },
+    message: SUCCESS_MESSAGES.INVITACION_RESENT,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Revocar invitación
+ * DELETE /api/users/invitations/:invitacionId
+ */
+export const revokeInvitacion = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const pendiente = await obtenerInvitacionPendiente(req.params.invitacionId);
+
+  await prisma.invitacion.update({
+    where: { id: pendiente.id },
+    data: { revokedAt: new Date() },
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.INVITACION_REVOKED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Aceptar invitación definiendo nombre y contraseña
+ * POST /api/auth/accept-invitation
+ */
+export const acceptInvitacion = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { token, name, password } = req.body as AcceptInvitacionDTO;
+
+  const user = await aceptarInvitacion(token, {
+    name: sanitizeText(name),
+    password: await hashPassword(password),
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: user,
+    message: SUCCESS_MESSAGES.INVITACION_ACCEPTED,
+  };
+
+  res.status(HTTP_STATUS.CREATED).json(response);
+};
@@ -0,0 +1,248 @@
+/**
+ * Controller de Lista de Espera
+ */
+
+import { Response } from 'express';
+import { prisma } from '../config/prisma';
+import { AuthenticatedRequest, ApiResponse, JoinListaEsperaDTO, PaginatedResponse } from '../types';
+import { normalizePagination, calculateTotalPages, parseDecimal } from '../utils/validators';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, PERMISOS } from '../config/constants';
+import {
+  createNotFoundError,
+  createBadRequestError,
+  createConflictError,
+  createForbiddenError,
+} from '../middlewares/errorHandler';
+import { tienePermiso } from '../middlewares/authorization';
+import { ejecutarConCapacidad, bloquearPeriodos, calcularLibrasReservadas } from '../services/capacidadService';
+import { calcularPosicionListaEspera, promoverListaEspera } from '../services/listaEsperaService';
+import { validarVentanaAbierta } from '../services/ventanaReservaService';
+import { calcularCupos, validarCupoReserva } from '../services/cupoReservaService';
+import { validarReservaDirecta } from '../services/asignacionPeriodoService';
+import { resolverEntregaReserva } from '../services/direccionService';
+
+/**
+ * Unirse a la lista de espera de un periodo
+ * POST /api/lista-espera
+ */
+export const joinListaEspera = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { periodoId, libras, estado, direccionId, observaciones } = req.body as JoinListaEsperaDTO;
+  const librasDecimal = parseDecimal(libras);
+  const userId = req.user.id;
+
+  // Destino y copia de la dirección de entrega para la reserva que se promueva
+  const entrega = await resolverEntregaReserva(userId, { estado, direccionId });
+
+  const entrada = await ejecutarConCapacidad(async (tx) => {
+    await bloquearPeriodos(tx, [periodoId]);
+
+    const periodo = await tx.periodoLibras.findFirst({
+      where: { id: periodoId, status: 'ABIERTO' },
+    });
+
+    if (!periodo) {
+      throw createBadRequestError('El periodo seleccionado no existe o no está activo');
+    }
+
+    // Antes del reparto la demanda se registra como solicitud, no en la cola
+    validarReservaDirecta(periodo);
+    validarVentanaAbierta(periodo);
+
+    // Solo tiene sentido esperar si el periodo no puede atender la solicitud
+    const librasDisponibles =
+      periodo.librasTotales - (await calcularLibrasReservadas(tx, periodoId));
+
+    if (librasDecimal <= librasDisponibles) {
+      throw createBadRequestError(ERROR_MESSAGES.LISTA_ESPERA_HAY_CAPACIDAD);
+    }
+
+    // La reserva que se promueva debe caber en el cupo del usuario
+    const cupos = await calcularCupos(tx, userId, [periodo]);
+    validarCupoReserva(cupos.get(periodo.id)!, librasDecimal, true);
+
+    // Un usuario solo puede tener una entrada en espera por periodo
+    const existente = await tx.listaEspera.findFirst({
+      where: { periodoId, userId, status: 'EN_ESPERA' },
+    });
+
+    if (existente) {
+      throw createConflictError(ERROR_MESSAGES.LISTA_ESPERA_DUPLICADA);
+    }
+
+    const creada = await tx.listaEspera.create({
+      data: {
+        libras: librasDecimal,
+        estado: entrega.estado,
+        direccionEntrega: entrega.direccionEntrega,
+        observaciones: observaciones || null,
+        userId,
+        periodoId,
+      },
+    });
+
+    return {
+      ...creada,
+      posicion: await calcularPosicionListaEspera(tx, creada),
+    };
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: entrada,
+    message: SUCCESS_MESSAGES.LISTA_ESPERA_JOINED,
+  };
+
+  res.status(HTTP_STATUS.CREATED).json(response);
+};
+
+/**
+ * Listar entradas de lista de espera
+ * GET /api/lista-espera
+ */
+export const listListaEspera = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { page, limit, periodoId, status, userId } = req.query;
+
+  // Normalizar paginación
+  const pagination = normalizePagination(page as string, limit as string);
+
+  // Construir filtros
+  const where: any = {};
+
+  // Sin lista-espera:manage, solo ver sus propias entradas
+  if (!tienePermiso(req.user, PERMISOS.LISTA_ESPERA_MANAGE)) {
+    where.userId = req.user.id;
+  } else if (userId) {
+    where.userId = parseInt(userId as string, 10);
+  }
+
+  if (periodoId) {
+    where.periodoId = parseInt(periodoId as string, 10);
+  }
+
+  if (status) {
+    where.status = status;
+  }
+
+  // Obtener total
+  const total = await prisma.listaEspera.count({ where });
+
+  // Obtener entradas
+  const entradas = await prisma.listaEspera.findMany({
+    where,
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+      periodo: {
+        select: {
+          id: true,
+          librasTotales: true,
+          fechaEnvio: true,
+        },
+      },
+    },
+    skip: pagination.skip,
+    take: pagination.limit,
+    orderBy: { id: 'asc' },
+  });
+
+  // Agregar posición en la cola a las entradas que siguen en espera
+  const entradasConPosicion = await Promise.all(
+    entradas.map(async (entrada) => ({
+      ...entrada,
+      posicion:
+        entrada.status === 'EN_ESPERA'
+          ? await calcularPosicionListaEspera(prisma, entrada)
+          : null,
+    }))
+  );
+
+  const response: PaginatedResponse<typeof entradasConPosicion[0]> = {
+    success: true,
+    data: entradasConPosicion,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: calculateTotalPages(total, pagination.limit),
+    },
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Salir de la lista de espera
+ * DELETE /api/lista-espera/:entradaId
+ */
+export const leaveListaEspera = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { entradaId } = req.params;
+
+  if (!entradaId) {
+    throw createBadRequestError('ID de entrada requerido');
+  }
+
+  const entrada = await prisma.listaEspera.findUnique({
+    where: { id: parseInt(entradaId, 10) },
+  });
+
+  if (!entrada) {
+    throw createNotFoundError(ERROR_MESSAGES.LISTA_ESPERA_NOT_FOUND);
+  }
+
+  // Verificar permisos
+  if (!tienePermiso(req.user, PERMISOS.LISTA_ESPERA_MANAGE) && entrada.userId !== req.user.id) {
+    throw createForbiddenError(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS);
+  }
+
+  await ejecutarConCapacidad(async (tx) => {
+    await bloquearPeriodos(tx, [entrada.periodoId]);
+
+    // Releer con el bloqueo: la entrada pudo ser promovida mientras tanto
+    const actual = await tx.listaEspera.findUnique({ where: { id: entrada.id } });
+
+    if (!actual || actual.status !== 'EN_ESPERA') {
+      throw createBadRequestError(ERROR_MESSAGES.LISTA_ESPERA_NO_ACTIVA);
+    }
+
+    await tx.listaEspera.update({
+      where: { id: entrada.id },
+      data: { status: 'RETIRADA' },
+    });
+
+    // Si la entrada bloqueaba la cabeza de la cola, las siguientes pueden caber
+    await promoverListaEspera(tx, entrada.periodoId);
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.LISTA_ESPERA_LEFT,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
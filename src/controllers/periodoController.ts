@@ -3,11 +3,100 @@
  */
 
 import { Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/prisma';
-import { AuthenticatedRequest, ApiResponse, CreatePeriodoDTO, UpdatePeriodoDTO, PaginatedResponse } from '../types';
-import { normalizePagination, calculateTotalPages, parseDateWithoutTimezone } from '../utils/validators';
-import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS } from '../config/constants';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  CreatePeriodoDTO,
+  UpdatePeriodoDTO,
+  UpdateStatusPeriodoDTO,
+  PaginatedResponse,
+  ModoAsignacion,
+} from '../types';
+import { normalizePagination, calculateTotalPages, parseDateWithoutTimezone, getStartOfDay, getEndOfDay } from '../utils/validators';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, PERMISOS, STATUS_PERIODO } from '../config/constants';
 import { createNotFoundError, createBadRequestError } from '../middlewares/errorHandler';
+import { tienePermiso } from '../middlewares/authorization';
+import { ejecutarConCapacidad, bloquearPeriodos, calcularLibrasReservadas } from '../services/capacidadService';
+import { promoverListaEspera } from '../services/listaEsperaService';
+import { obtenerHorasRetencion, calcularFechaLimiteRetencion } from '../services/retencionService';
+import { estaVentanaAbierta, filtroVentanaAbierta } from '../services/ventanaReservaService';
+import { cambiarStatusPeriodo, validarPeriodoEditable } from '../services/cicloPeriodoService';
+import { previsualizarArchivo, archivarPeriodo, reabrirPeriodo } from '../services/archivoPeriodoService';
+import { calcularCupos } from '../services/cupoReservaService';
+import { previsualizarAsignacion, ejecutarAsignacion, usaSolicitudes } from '../services/asignacionPeriodoService';
+
+/**
+ * Parsear un límite de la ventana de reservas
+ * Una fecha sin hora (YYYY-MM-DD) se toma como inicio o fin de ese día
+ */
+const parsearLimiteVentana = (
+  valor: string | Date | null | undefined,
+  finDelDia: boolean
+): Date | null | undefined => {
+  if (valor === undefined || valor === null) {
+    return valor;
+  }
+
+  if (typeof valor === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(valor)) {
+    const dia = parseDateWithoutTimezone(valor);
+    return finDelDia ? getEndOfDay(dia) : getStartOfDay(dia);
+  }
+
+  return new Date(valor);
+};
+
+/**
+ * Validar la coherencia de la ventana de reservas con la fecha de envío
+ */
+const validarLimitesVentana = (
+  fechaApertura: Date | null,
+  fechaCorte: Date | null,
+  fechaEnvio: Date
+): void => {
+  if (fechaApertura && fechaCorte && fechaApertura >= fechaCorte) {
+    throw createBadRequestError(ERROR_MESSAGES.VENTANA_INVALIDA);
+  }
+
+  if (fechaCorte && fechaCorte > getEndOfDay(fechaEnvio)) {
+    throw createBadRequestError(ERROR_MESSAGES.CORTE_DESPUES_DE_ENVIO);
+  }
+};
+
+/**
+ * Validar el modo de asignación resultante de un periodo
+ * El reparto ocurre al corte, así que requiere fecha de corte
+ */
+const validarModoAsignacion = (
+  periodo: { modoAsignacion: ModoAsignacion },
+  fechaCorte: Date | null
+): void => {
+  if (usaSolicitudes(periodo) && !fechaCorte) {
+    throw createBadRequestError(ERROR_MESSAGES.MODO_ASIGNACION_REQUIERE_CORTE);
+  }
+};
+
+/**
+ * Agregar a un periodo sus horas de retención efectivas y la
+ * fecha límite de retención de cada reserva PENDIENTE
+ */
+const agregarRetencion = <
+  T extends { horasRetencion: number | null; reservas: Array<{ status: string; retenidaDesde: Date }> }
+>(
+  periodo: T
+) => {
+  const horasRetencionEfectivas = obtenerHorasRetencion(periodo);
+
+  return {
+    ...periodo,
+    horasRetencionEfectivas,
+    reservas: periodo.reservas.map((reserva) => ({
+      ...reserva,
+      fechaLimiteRetencion: calcularFechaLimiteRetencion(reserva, horasRetencionEfectivas),
+    })),
+  };
+};
 
 /**
  * Crear periodo
@@ -17,7 +106,17 @@ export const createPeriodo = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
-  const { librasTotales, fechaEnvio } = req.body as CreatePeriodoDTO;
+  const {
+    librasTotales,
+    fechaEnvio,
+    horasRetencion,
+    fechaApertura,
+    fechaCorte,
+    maxLibrasPorUsuario,
+    minLibrasReserva,
+    maxReservasAbiertas,
+    modoAsignacion,
+  } = req.body as CreatePeriodoDTO;
 
   // Validar que la fecha sea futura o hoy
   const hoy = new Date();
@@ -28,12 +127,24 @@ export const createPeriodo = async (
     throw createBadRequestError('La fecha de envío debe ser hoy o en el futuro');
   }
 
+  // Validar ventana de reservas
+  const apertura = parsearLimiteVentana(fechaApertura, false) ?? null;
+  const corte = parsearLimiteVentana(fechaCorte, true) ?? null;
+  validarLimitesVentana(apertura, corte, fechaEnvioDate);
+  validarModoAsignacion({ modoAsignacion: modoAsignacion ?? 'ORDEN_LLEGADA' }, corte);
+
   // Crear periodo
   const periodo = await prisma.periodoLibras.create({
     data: {
       librasTotales,
       fechaEnvio: parseDateWithoutTimezone(fechaEnvio),
-      isActive: true,
+      horasRetencion: horasRetencion ?? null,
+      fechaApertura: apertura,
+      fechaCorte: corte,
+      maxLibrasPorUsuario: maxLibrasPorUsuario ?? null,
+      minLibrasReserva: minLibrasReserva ?? null,
+      maxReservasAbiertas: maxReservasAbiertas ?? null,
+      modoAsignacion,
     },
   });
 
@@ -54,7 +165,7 @@ export const listPeriodos = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
-  const { page, limit, isActive } = req.query;
+  const { page, limit, status } = req.query;
 
   // Normalizar paginación
   const pagination = normalizePagination(page as string, limit as string);
@@ -62,9 +173,8 @@ export const listPeriodos = async (
   // Construir filtros
   const where: any = {};
 
-  if (isActive !== undefined) {
-    // Convertir a string primero y luego comparar
-    where.isActive = String(isActive) === 'true';
+  if (status) {
+    where.status = status;
   }
 
   // Obtener total
@@ -85,6 +195,8 @@ export const listPeriodos = async (
           id: true,
           libras: true,
           status: true,
+          createdAt: true,
+          retenidaDesde: true,
         },
       },
     },
@@ -93,9 +205,11 @@ export const listPeriodos = async (
     orderBy: { fechaEnvio: 'desc' },
   });
 
-  const response: PaginatedResponse<typeof periodos[0]> = {
+  const periodosConRetencion = periodos.map(agregarRetencion);
+
+  const response: PaginatedResponse<typeof periodosConRetencion[0]> = {
     success: true,
-    data: periodos,
+    data: periodosConRetencion,
     pagination: {
       page: pagination.page,
       limit: pagination.limit,
@@ -116,7 +230,7 @@ export const getPeriodoActivo = async (
   res: Response
 ): Promise<void> => {
   const periodo = await prisma.periodoLibras.findFirst({
-    where: { isActive: true },
+    where: { status: STATUS_PERIODO.ABIERTO },
     include: {
       _count: {
         select: {
@@ -148,6 +262,7 @@ export const getPeriodoActivo = async (
     success: true,
     data: {
       ...periodo,
+      horasRetencionEfectivas: obtenerHorasRetencion(periodo),
       librasReservadas,
       librasDisponibles,
       porcentajeOcupacion: (librasReservadas / periodo.librasTotales) * 100,
@@ -162,12 +277,17 @@ export const getPeriodoActivo = async (
  * GET /api/periodos/available
  */
 export const getPeriodosDisponibles = async (
-  _req: AuthenticatedRequest,
+  req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
+  // Los usuarios solo ven periodos con la ventana de reservas abierta;
+  // quien puede reservar fuera de la ventana ve todos para registrar reservas tardías
+  const verTodos = tienePermiso(req.user, PERMISOS.RESERVAS_OVERRIDE_VENTANA);
+
   const periodosActivos = await prisma.periodoLibras.findMany({
     where: {
-      isActive: true,
+      status: STATUS_PERIODO.ABIERTO,
+      ...(verTodos ? {} : filtroVentanaAbierta()),
     },
     include: {
       reservas: {
@@ -175,6 +295,8 @@ export const getPeriodosDisponibles = async (
           id: true,
           libras: true,
           status: true,
+          createdAt: true,
+          retenidaDesde: true,
         },
       },
     },
@@ -183,9 +305,16 @@ export const getPeriodosDisponibles = async (
     },
   });
 
+  // Cupo del usuario en cada periodo según sus límites
+  const cupos = await calcularCupos(prisma, req.user!.id, periodosActivos);
+
   const response: ApiResponse = {
     success: true,
-    data: periodosActivos,
+    data: periodosActivos.map((periodo) => ({
+      ...agregarRetencion(periodo),
+      ventanaAbierta: estaVentanaAbierta(periodo),
+      cupoUsuario: cupos.get(periodo.id),
+    })),
   };
 
   res.status(HTTP_STATUS.OK).json(response);
@@ -213,6 +342,15 @@ export const getPeriodoById = async (
           reservas: true,
         },
       },
+      reservas: {
+        select: {
+          id: true,
+          libras: true,
+          status: true,
+          createdAt: true,
+          retenidaDesde: true,
+        },
+      },
     },
   });
 
@@ -222,7 +360,7 @@ export const getPeriodoById = async (
 
   const response: ApiResponse = {
     success: true,
-    data: periodo,
+    data: agregarRetencion(periodo),
   };
 
   res.status(HTTP_STATUS.OK).json(response);
@@ -242,7 +380,17 @@ export const updatePeriodo = async (
     throw createBadRequestError('ID de periodo requerido');
   }
 
-  const { librasTotales, fechaEnvio } = req.body as UpdatePeriodoDTO;
+  const {
+    librasTotales,
+    fechaEnvio,
+    horasRetencion,
+    fechaApertura,
+    fechaCorte,
+    maxLibrasPorUsuario,
+    minLibrasReserva,
+    maxReservasAbiertas,
+    modoAsignacion,
+  } = req.body as UpdatePeriodoDTO;
 
   // Verificar que el periodo exista
   const periodo = await prisma.periodoLibras.findUnique({
@@ -253,36 +401,87 @@ export const updatePeriodo = async (
     throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
   }
 
-  // Si se reduce librasTotales, verificar que no sea menor a las reservadas
-  if (librasTotales !== undefined && librasTotales < periodo.librasTotales) {
-    const reservas = await prisma.reserva.findMany({
-      where: {
-        periodoId: periodo.id,
-        status: { notIn: ['CANCELADA'] },
-      },
-    });
+  // Preparar datos de actualización
+  const updateData: Prisma.PeriodoLibrasUpdateInput = {};
+  const nuevaFechaEnvio = fechaEnvio ? parseDateWithoutTimezone(fechaEnvio) : undefined;
 
-    const librasReservadas = reservas.reduce((sum, reserva) => {
-      return sum + parseFloat(reserva.libras.toString());
-    }, 0);
+  if (librasTotales) updateData.librasTotales = librasTotales;
+  if (nuevaFechaEnvio) updateData.fechaEnvio = nuevaFechaEnvio;
+  if (horasRetencion !== undefined) updateData.horasRetencion = horasRetencion;
+  if (maxLibrasPorUsuario !== undefined) updateData.maxLibrasPorUsuario = maxLibrasPorUsuario;
+  if (minLibrasReserva !== undefined) updateData.minLibrasReserva = minLibrasReserva;
+  if (maxReservasAbiertas !== undefined) updateData.maxReservasAbiertas = maxReservasAbiertas;
+
+  // Validar la ventana resultante (valores nuevos o los actuales)
+  const apertura = parsearLimiteVentana(fechaApertura, false);
+  const corte = parsearLimiteVentana(fechaCorte, true);
+
+  if (apertura !== undefined) updateData.fechaApertura = apertura;
+  if (corte !== undefined) updateData.fechaCorte = corte;
+
+  validarLimitesVentana(
+    apertura !== undefined ? apertura : periodo.fechaApertura,
+    corte !== undefined ? corte : periodo.fechaCorte,
+    nuevaFechaEnvio ?? periodo.fechaEnvio
+  );
 
-    if (librasTotales < librasReservadas) {
-      throw createBadRequestError(
-        `No se puede reducir el total a ${librasTotales} lbs. Ya hay ${librasReservadas} lbs reservadas.`
-      );
-    }
+  const cambiaModo = modoAsignacion !== undefined && modoAsignacion !== periodo.modoAsignacion;
+
+  if (cambiaModo) {
+    updateData.modoAsignacion = modoAsignacion;
   }
 
-  // Preparar datos de actualización
-  const updateData: any = {};
+  validarModoAsignacion(
+    { modoAsignacion: cambiaModo ? modoAsignacion : periodo.modoAsignacion },
+    corte !== undefined ? corte : periodo.fechaCorte
+  );
 
-  if (librasTotales) updateData.librasTotales = librasTotales;
-  if (fechaEnvio) updateData.fechaEnvio = parseDateWithoutTimezone(fechaEnvio);
+  const updatedPeriodo = await ejecutarConCapacidad(async (tx) => {
+    // Solo periodos abiertos o cerrados (los enviados, archivados o cancelados
+    // quedan fijos); se valida bajo bloqueo por si cambian de estado a la vez
+    await bloquearPeriodos(tx, [periodo.id]);
+    await validarPeriodoEditable(tx, periodo.id);
+
+    // Cambiar entre reservas directas y solicitudes solo antes de que existan
+    // (entre criterios de reparto se puede cambiar hasta ejecutarlo)
+    if (cambiaModo) {
+      const cambiaTipo = usaSolicitudes(periodo) !== usaSolicitudes({ modoAsignacion });
+      const [reservas, solicitudes] = await Promise.all([
+        calcularLibrasReservadas(tx, periodo.id),
+        tx.solicitudAsignacion.count({ where: { periodoId: periodo.id, status: 'PENDIENTE' } }),
+      ]);
+
+      if (periodo.fechaAsignacion || (cambiaTipo && (reservas > 0 || solicitudes > 0))) {
+        throw createBadRequestError(ERROR_MESSAGES.MODO_ASIGNACION_NO_EDITABLE);
+      }
+    }
 
-  // Actualizar periodo
-  const updatedPeriodo = await prisma.periodoLibras.update({
-    where: { id: parseInt(periodoId, 10) },
-    data: updateData,
+    // Si se reduce librasTotales, verificar que no sea menor a las reservadas
+    if (librasTotales !== undefined && librasTotales < periodo.librasTotales) {
+      const librasReservadas = await calcularLibrasReservadas(tx, periodo.id);
+
+      if (librasTotales < librasReservadas) {
+        throw createBadRequestError(
+          `No se puede reducir el total a ${librasTotales} lbs. Ya hay ${librasReservadas} lbs reservadas.`
+        );
+      }
+    }
+
+    // Si se aumenta librasTotales, la capacidad nueva es para la lista de espera
+    const aumentaCapacidad =
+      librasTotales !== undefined && librasTotales > periodo.librasTotales;
+
+    // Actualizar periodo
+    const actualizado = await tx.periodoLibras.update({
+      where: { id: parseInt(periodoId, 10) },
+      data: updateData,
+    });
+
+    if (aumentaCapacidad) {
+      await promoverListaEspera(tx, periodo.id);
+    }
+
+    return actualizado;
   });
 
   const response: ApiResponse = {
@@ -294,6 +493,64 @@ export const updatePeriodo = async (
   res.status(HTTP_STATUS.OK).json(response);
 };
 
+/**
+ * Cambiar el estado del ciclo de vida de un periodo
+ * PATCH /api/periodos/:periodoId/status
+ */
+export const updatePeriodoStatus = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { periodoId } = req.params;
+  const { status, motivo } = req.body as UpdateStatusPeriodoDTO;
+
+  if (!periodoId) {
+    throw createBadRequestError('ID de periodo requerido');
+  }
+
+  // Valida la transición y aplica la cascada sobre reservas y lista de espera
+  const cambio = await cambiarStatusPeriodo(
+    parseInt(periodoId, 10),
+    status,
+    req.user!.id,
+    motivo,
+    req.apiKey?.id
+  );
+
+  const response: ApiResponse = {
+    success: true,
+    data: cambio,
+    message: SUCCESS_MESSAGES.PERIODO_STATUS_UPDATED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Vista previa del archivo de un periodo
+ * GET /api/periodos/:periodoId/close/preview
+ */
+export const previewClosePeriodo = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { periodoId } = req.params;
+
+  if (!periodoId) {
+    throw createBadRequestError('ID de periodo requerido');
+  }
+
+  // Mismo contenido que escribiría /close, sin modificar nada
+  const preview = await previsualizarArchivo(parseInt(periodoId, 10));
+
+  const response: ApiResponse = {
+    success: true,
+    data: preview,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
 /**
  * Cerrar periodo y archivar
  * POST /api/periodos/:periodoId/close
@@ -308,81 +565,89 @@ export const closePeriodo = async (
     throw createBadRequestError('ID de periodo requerido');
   }
 
-  // Buscar periodo
-  const periodo = await prisma.periodoLibras.findUnique({
-    where: { id: parseInt(periodoId, 10) },
-    include: {
-      reservas: {
-        include: {
-          user: true,
-        },
-      },
-    },
-  });
+  // Histórico, borrado de reservas y cambio de estado en una sola transacción
+  const historicoPeriodo = await archivarPeriodo(parseInt(periodoId, 10));
 
-  if (!periodo) {
-    throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
+  const response: ApiResponse = {
+    success: true,
+    data: historicoPeriodo,
+    message: SUCCESS_MESSAGES.PERIODO_CLOSED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Reabrir un periodo archivado (dentro del plazo de gracia)
+ * POST /api/periodos/:periodoId/reopen
+ */
+export const reopenPeriodo = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { periodoId } = req.params;
+
+  if (!periodoId) {
+    throw createBadRequestError('ID de periodo requerido');
   }
 
-  // Calcular estadísticas
-  const reservasActivas = periodo.reservas.filter(r => r.status !== 'CANCELADA');
+  const resultado = await reabrirPeriodo(parseInt(periodoId, 10));
 
-  const librasReservadas = reservasActivas.reduce((sum, reserva) => {
-    return sum + parseFloat(reserva.libras.toString());
-  }, 0);
+  const response: ApiResponse = {
+    success: true,
+    data: resultado,
+    message: SUCCESS_MESSAGES.PERIODO_REOPENED,
+  };
 
-  const librasDisponibles = periodo.librasTotales - librasReservadas;
+  res.status(HTTP_STATUS.OK).json(response);
+};
 
-  const usuariosUnicos = new Set(reservasActivas.map(r => r.userId)).size;
+/**
+ * Vista previa del reparto de un periodo con solicitudes
+ * GET /api/periodos/:periodoId/asignacion/preview
+ */
+export const previewAsignacionPeriodo = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { periodoId } = req.params;
 
-  // Crear histórico del periodo
-  const historicoPeriodo = await prisma.historicoPeriodo.create({
-    data: {
-      librasTotales: periodo.librasTotales,
-      librasReservadas,
-      librasDisponibles,
-      fechaEnvio: periodo.fechaEnvio,
-      totalReservas: reservasActivas.length,
-      totalUsuarios: usuariosUnicos,
-    },
-  });
+  if (!periodoId) {
+    throw createBadRequestError('ID de periodo requerido');
+  }
 
-  // Crear histórico de cada reserva
-  await Promise.all(
-    periodo.reservas.map((reserva) =>
-      prisma.historicoReserva.create({
-        data: {
-          userId: reserva.userId,
-          userName: reserva.user.name,
-          userEmail: reserva.user.email,
-          libras: reserva.libras,
-          fecha: reserva.fecha,
-          estado: reserva.estado,
-          observaciones: reserva.observaciones,
-          status: reserva.status,
-          periodoFechaEnvio: periodo.fechaEnvio,
-          reservaOriginalId: reserva.id,
-        },
-      })
-    )
-  );
+  // Mismo cálculo que /asignacion, sin crear reservas
+  const preview = await previsualizarAsignacion(parseInt(periodoId, 10));
 
-  // CRÍTICO: Eliminar reservas archivadas de la tabla reservas
-  await prisma.reserva.deleteMany({
-    where: { periodoId: parseInt(periodoId, 10) },
-  });
+  const response: ApiResponse = {
+    success: true,
+    data: preview,
+  };
 
-  // Desactivar el periodo
-  await prisma.periodoLibras.update({
-    where: { id: parseInt(periodoId, 10) },
-    data: { isActive: false },
-  });
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Ejecutar el reparto de un periodo con solicitudes
+ * POST /api/periodos/:periodoId/asignacion
+ */
+export const asignarPeriodo = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { periodoId } = req.params;
+
+  if (!periodoId) {
+    throw createBadRequestError('ID de periodo requerido');
+  }
+
+  const asignacion = await ejecutarAsignacion(parseInt(periodoId, 10), req.user!.id, req.apiKey?.id);
 
   const response: ApiResponse = {
     success: true,
-    data: historicoPeriodo,
-    message: SUCCESS_MESSAGES.PERIODO_CLOSED,
+    data: asignacion,
+    message: SUCCESS_MESSAGES.ASIGNACION_EJECUTADA,
   };
 
   res.status(HTTP_STATUS.OK).json(response);
-};
\ No newline at end of file
+};
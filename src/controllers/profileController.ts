@@ -30,6 +30,8 @@ export const getProfile = async (
       name: true,
       email: true,
       avatar: true,
+      phone: true,
+      defaultEstado: true,
       role: true,
       createdAt: true,
       updatedAt: true,
@@ -54,7 +56,7 @@ export const getProfile = async (
 };
 
 /**
- * Actualizar nombre del perfil
+ * Actualizar datos del perfil (nombre, teléfono y destino predeterminado)
  * PATCH /api/profile
  */
 export const updateProfile = async (
@@ -65,20 +67,31 @@ export const updateProfile = async (
     throw createBadRequestError('Usuario no autenticado');
   }
 
-  const { name } = req.body as UpdateProfileDTO;
+  const { name, phone, defaultEstado } = req.body as UpdateProfileDTO;
 
-  if (!name) {
-    throw createBadRequestError('El nombre es requerido');
+  // Preparar datos de actualización (null o vacío borra el teléfono y el destino)
+  const updateData: any = {};
+
+  if (name) updateData.name = sanitizeText(name);
+  if (phone !== undefined) updateData.phone = phone ? sanitizeText(phone) : null;
+  if (defaultEstado !== undefined) {
+    updateData.defaultEstado = defaultEstado ? sanitizeText(defaultEstado) : null;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    throw createBadRequestError('No hay datos para actualizar');
   }
 
   const updatedUser = await prisma.user.update({
     where: { id: req.user.id },
-    data: { name: sanitizeText(name) },
+    data: updateData,
     select: {
       id: true,
       name: true,
       email: true,
       avatar: true,
+      phone: true,
+      defaultEstado: true,
       role: true,
       updatedAt: true,
     },
@@ -4,41 +4,51 @@
 
 import { Response } from 'express';
 import { prisma } from '../config/prisma';
-import { AuthenticatedRequest, ApiResponse, CreateReservaDTO, UpdateReservaDTO, PaginatedResponse } from '../types';
+import { AuthenticatedRequest, ApiResponse, CreateReservaDTO, PreviewReservaDTO, UpdateReservaDTO, UpdateStatusReservaDTO, PaginatedResponse } from '../types';
 import { normalizePagination, calculateTotalPages, parseDecimal, parseDateWithoutTimezone, getTodayDateString } from '../utils/validators';
-import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, ROLES } from '../config/constants';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, PERMISOS, STATUS_PERIODO } from '../config/constants';
 import { createNotFoundError, createBadRequestError, createForbiddenError } from '../middlewares/errorHandler';
-import { canChangeReservaStatus } from '../middlewares/authorization';
+import { canChangeReservaStatus, canEditReserva, canDeleteReserva, tienePermiso } from '../middlewares/authorization';
+import { ejecutarConCapacidad, bloquearPeriodos, calcularLibrasReservadas, TransactionClient } from '../services/capacidadService';
+import { registrarEventoReserva } from '../services/reservaEventoService';
+import { promoverListaEspera } from '../services/listaEsperaService';
+import { cargarPeriodosCandidatos, planificarReserva } from '../services/planReservaService';
+import { resolverIgnorarVentana, validarVentanaAbierta } from '../services/ventanaReservaService';
+import { validarPeriodoAbierto } from '../services/cicloPeriodoService';
+import { resolverEntregaReserva } from '../services/direccionService';
+import { calcularCupos, validarCupoReserva } from '../services/cupoReservaService';
 
 
 /**
- * Calcular libras disponibles en el periodo activo
+ * Calcular libras disponibles en un periodo
+ * Debe llamarse dentro de una transacción con el periodo bloqueado
  */
-const calcularLibrasDisponibles = async (periodoId: number, excludeReservaId?: number): Promise<number> => {
-  const periodo = await prisma.periodoLibras.findUnique({
+const calcularLibrasDisponibles = async (
+  tx: TransactionClient,
+  periodoId: number,
+  excludeReservaId?: number
+): Promise<number> => {
+  const periodo = await tx.periodoLibras.findUnique({
     where: { id: periodoId },
-    include: {
-      reservas: {
-        where: {
-          id: excludeReservaId ? { not: excludeReservaId } : undefined,
-          status: { notIn: ['CANCELADA'] }, // No contar reservas canceladas
-        },
-      },
-    },
+    select: { librasTotales: true },
   });
 
   if (!periodo) {
     throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
   }
 
-  // Sumar todas las libras reservadas
-  const librasReservadas = periodo.reservas.reduce((sum, reserva) => {
-    return sum + parseFloat(reserva.libras.toString());
-  }, 0);
+  // Sumar todas las libras reservadas (sin contar canceladas)
+  const librasReservadas = await calcularLibrasReservadas(tx, periodoId, excludeReservaId);
 
   return periodo.librasTotales - librasReservadas;
 };
 
+/**
+ * Estados desde los que el dueño puede cancelar su propia reserva
+ * (una vez enviada, la cancelación requiere reservas:cancel)
+ */
+const STATUS_CANCELABLES_POR_DUENO: string[] = ['PENDIENTE', 'CONFIRMADA'];
+
 /**
  * Crear reserva
  * POST /api/reservas
@@ -51,163 +61,99 @@ export const createReserva = async (
     throw createBadRequestError('Usuario no autenticado');
   }
 
-  const { libras, fecha, estado, observaciones, periodoId } = req.body as CreateReservaDTO;
+  const { libras, fecha, estado, observaciones, periodoId, direccionId, ignorarVentana } = req.body as CreateReservaDTO;
   const librasDecimal = parseDecimal(libras);
   const fechaReserva = parseDateWithoutTimezone(fecha);
+  const userId = req.user.id;
+  const fueraDeVentana = resolverIgnorarVentana(req.user.permisos, ignorarVentana);
+
+  // Destino y copia de la dirección de entrega (la libreta puede cambiar después)
+  const entrega = await resolverEntregaReserva(userId, { estado, direccionId });
+
+  // Planificar y crear las reservas en una sola transacción.
+  // Los periodos se bloquean antes de calcular la disponibilidad para que
+  // dos solicitudes simultáneas no puedan sobrevender el mismo periodo.
+  const reservasCreadas = await ejecutarConCapacidad(async (tx) => {
+    const periodos = await cargarPeriodosCandidatos(
+      tx,
+      { periodoId, fechaReserva, ignorarVentana: fueraDeVentana, userId },
+      { bloquear: true }
+    );
 
-  // Buscar periodos activos
-  let periodosActivos;
-  
-  if (periodoId) {
-    // Si se especificó un periodo del dropdown, usarlo directamente
-    const periodoEspecifico = await prisma.periodoLibras.findFirst({
-      where: {
-        id: periodoId,
-        isActive: true,
-      },
-      include: {
-        reservas: {
-          where: {
-            status: { notIn: ['CANCELADA'] },
-          },
-        },
-      },
-    });
-
-    if (!periodoEspecifico) {
-      throw createBadRequestError('El periodo seleccionado no existe o no está activo');
+    // En un periodo elegido, validar el cupo del usuario con el motivo exacto
+    const cupoPeriodoElegido = periodoId ? periodos[0]?.cupoUsuario : undefined;
+    if (cupoPeriodoElegido) {
+      validarCupoReserva(cupoPeriodoElegido, librasDecimal, true);
     }
 
-    periodosActivos = [periodoEspecifico];
-  } else {
-    // Lógica original: buscar periodos desde la fecha
-    periodosActivos = await prisma.periodoLibras.findMany({
-      where: {
-        isActive: true,
-        fechaEnvio: { gte: fechaReserva },
-      },
-      orderBy: {
-        fechaEnvio: 'asc',
-      },
-      include: {
-        reservas: {
-          where: {
-            status: { notIn: ['CANCELADA'] },
-          },
-        },
-      },
-    });
-  }
-
-  console.log('📦 Periodos activos encontrados:', periodosActivos.length);
-  periodosActivos.forEach((periodo, index) => {
-    const librasReservadas = periodo.reservas.reduce((sum, reserva) => {
-      return sum + parseFloat(reserva.libras.toString());
-    }, 0);
-    const disponibles = periodo.librasTotales - librasReservadas;
-    
-    console.log(`📊 Periodo ${index + 1}:`, {
-      id: periodo.id,
-      fechaEnvio: periodo.fechaEnvio.toISOString().split('T')[0],
-      librasTotales: periodo.librasTotales,
-      cantidadReservas: periodo.reservas.length,
-      librasReservadas,
-      librasDisponibles: disponibles
-    });
-  });
-
-  if (periodosActivos.length === 0) {
-    throw createBadRequestError('No hay periodos activos disponibles para esta fecha o fechas futuras');
-  }  
+    // PRIMERO: Calcular cuántas libras se pueden reservar SIN crear nada
+    const plan = planificarReserva(periodos, librasDecimal, fechaReserva);
 
-  // PRIMERO: Calcular cuántas libras se pueden reservar SIN crear nada
-  let librasRestantes = librasDecimal;
-  const planDeReservas: Array<{
-    periodo: any;
-    libras: number;
-    fecha: Date;
-  }> = [];
-
-  for (const periodo of periodosActivos) {
-    if (librasRestantes <= 0) break;
-
-    const librasReservadas = periodo.reservas.reduce((sum, reserva) => {
-      return sum + parseFloat(reserva.libras.toString());
-    }, 0);
-
-    const librasDisponibles = periodo.librasTotales - librasReservadas;
-
-    if (librasDisponibles > 0) {
-      const librasParaEstePeriodo = Math.min(librasRestantes, librasDisponibles);
-
-      // ✅ CORREGIDO: Usar >= 0.01 en vez de > 0
-      if (librasParaEstePeriodo >= 0.01) {
-        const fechaEnvioPeriodo = parseDateWithoutTimezone(periodo.fechaEnvio.toISOString().split('T')[0]!);
-
-        const fechaReservaParaPeriodo: Date = 
-          planDeReservas.length === 0 && 
-          fechaReserva.getTime() === fechaEnvioPeriodo.getTime()
-            ? fechaReserva
-            : fechaEnvioPeriodo;
-
-        planDeReservas.push({
-          periodo,
-          libras: librasParaEstePeriodo,
-          fecha: fechaReservaParaPeriodo,
-        });
-
-        librasRestantes -= librasParaEstePeriodo;
-      }
+    // Los límites del usuario (y no la capacidad) impiden completar la reserva
+    if (plan.limitadoPorCupo) {
+      throw createBadRequestError(
+        `Tus límites de reserva por periodo no permiten reservar ${plan.librasSolicitadas} lbs. ` +
+        `Puedes reservar máximo ${plan.librasAsignadas.toFixed(2)} lbs ` +
+        `(consulta tu cupo en GET /api/periodos/available).`
+      );
     }
-  }
-    
-  
 
-  // Validar si quedan libras sin asignar ANTES de crear
-  if (librasRestantes > 0) {
-    const librasDisponiblesTotales = librasDecimal - librasRestantes;
-    throw createBadRequestError(
-      `No hay suficientes libras disponibles. Se pueden reservar máximo ${librasDisponiblesTotales.toFixed(2)} lbs ` +
-      `distribuidas entre los periodos activos. Faltan ${librasRestantes.toFixed(2)} lbs por asignar.`
-    );
-  }
+    // Validar si quedan libras sin asignar ANTES de crear
+    if (!plan.completo) {
+      throw createBadRequestError(
+        `No hay suficientes libras disponibles. Se pueden reservar máximo ${plan.librasAsignadas.toFixed(2)} lbs ` +
+        `distribuidas entre los periodos activos. Faltan ${plan.librasFaltantes.toFixed(2)} lbs por asignar.`
+      );
+    }
 
-  // AHORA SÍ: Crear las reservas
-  const reservasCreadas: any[] = [];
-
-  for (const [index, plan] of planDeReservas.entries()) {
-    const reserva = await prisma.reserva.create({
-      data: {
-        libras: plan.libras,
-        fecha: plan.fecha,
-        estado,
-        observaciones: index === 0 
-          ? observaciones || null
-          : `Reserva dividida - Parte ${index + 1}. ${observaciones || ''}`,
-        userId: req.user.id,
-        periodoId: plan.periodo.id,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
+    // AHORA SÍ: Crear las reservas (todo o nada)
+    const creadas = [];
+
+    for (const [index, item] of plan.items.entries()) {
+      const reserva = await tx.reserva.create({
+        data: {
+          libras: item.libras,
+          fecha: item.fecha,
+          estado: entrega.estado,
+          direccionEntrega: entrega.direccionEntrega,
+          observaciones: index === 0
+            ? observaciones || null
+            : `Reserva dividida - Parte ${index + 1}. ${observaciones || ''}`,
+          userId,
+          periodoId: item.periodoId,
         },
-        periodo: {
-          select: {
-            id: true,
-            librasTotales: true,
-            fechaEnvio: true,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              avatar: true,
+            },
+          },
+          periodo: {
+            select: {
+              id: true,
+              librasTotales: true,
+              fechaEnvio: true,
+            },
           },
         },
-      },
-    });
+      });
 
-    reservasCreadas.push(reserva);
-  }
+      await registrarEventoReserva(tx, {
+        reservaId: reserva.id,
+        statusAnterior: null,
+        statusNuevo: reserva.status,
+        actorId: userId,
+        apiKeyId: req.apiKey?.id,
+      });
+
+      creadas.push(reserva);
+    }
+
+    return creadas;
+  });
 
   // Preparar mensaje de respuesta
   let mensaje = '';
@@ -231,6 +177,58 @@ export const createReserva = async (
   res.status(HTTP_STATUS.CREATED).json(response);
 };
 
+/**
+ * Vista previa del reparto de una reserva (no escribe nada)
+ * POST /api/reservas/preview
+ */
+export const previewReserva = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { libras, fecha, periodoId, ignorarVentana } = req.body as PreviewReservaDTO;
+  const librasDecimal = parseDecimal(libras);
+  const fechaReserva = parseDateWithoutTimezone(fecha);
+
+  const periodos = await cargarPeriodosCandidatos(
+    prisma,
+    {
+      periodoId,
+      fechaReserva,
+      ignorarVentana: resolverIgnorarVentana(req.user.permisos, ignorarVentana),
+      userId: req.user.id,
+    },
+    { bloquear: false }
+  );
+
+  const plan = planificarReserva(periodos, librasDecimal, fechaReserva);
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      completo: plan.completo,
+      limitadoPorCupo: plan.limitadoPorCupo,
+      dividida: plan.items.length > 1,
+      librasSolicitadas: plan.librasSolicitadas,
+      librasAsignadas: parseFloat(plan.librasAsignadas.toFixed(2)),
+      librasFaltantes: parseFloat(plan.librasFaltantes.toFixed(2)),
+      periodos: plan.items.map((item) => ({
+        periodoId: item.periodoId,
+        fechaEnvio: item.fechaEnvio.toISOString().split('T')[0]!,
+        fecha: item.fecha,
+        libras: parseFloat(item.libras.toFixed(2)),
+        librasDisponibles: parseFloat(item.librasDisponibles.toFixed(2)),
+        cupoUsuario: item.cupoUsuario !== null ? parseFloat(item.cupoUsuario.toFixed(2)) : null,
+      })),
+    },
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
 /**
  * Listar reservas con filtros y paginación
  * GET /api/reservas
@@ -251,11 +249,11 @@ export const listReservas = async (
   // Construir filtros
   const where: any = {};
 
-  // Si es usuario regular, solo ver sus propias reservas
-  if (req.user.role === ROLES.USUARIO) {
+  // Sin reservas:read, solo ver sus propias reservas
+  if (!tienePermiso(req.user, PERMISOS.RESERVAS_READ)) {
     where.userId = req.user.id;
   } else if (userId) {
-    // Admin puede filtrar por usuario
+    // Con reservas:read se puede filtrar por usuario
     where.userId = parseInt(userId as string, 10);
   }
 
@@ -357,8 +355,8 @@ export const getReservaById = async (
     throw createNotFoundError(ERROR_MESSAGES.RESERVA_NOT_FOUND);
   }
 
-  // Verificar permisos: usuario solo puede ver sus propias reservas
-  if (req.user.role === ROLES.USUARIO && reserva.userId !== req.user.id) {
+  // Verificar permisos: sin reservas:read solo puede ver sus propias reservas
+  if (!tienePermiso(req.user, PERMISOS.RESERVAS_READ) && reserva.userId !== req.user.id) {
     throw createForbiddenError(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS);
   }
 
@@ -388,7 +386,9 @@ export const updateReserva = async (
     throw createBadRequestError('ID de reserva requerido');
   }
 
-  const { libras, estado, observaciones, status } = req.body as UpdateReservaDTO;
+  const { libras, estado, observaciones, status, ignorarVentana } = req.body as UpdateReservaDTO;
+  const userId = req.user.id;
+  const fueraDeVentana = resolverIgnorarVentana(req.user.permisos, ignorarVentana);
 
   // Buscar reserva
   const reserva = await prisma.reserva.findUnique({
@@ -401,35 +401,36 @@ export const updateReserva = async (
   }
 
   // Verificar permisos
-  if (req.user.role === ROLES.USUARIO && reserva.userId !== req.user.id) {
+  if (!(await canEditReserva(req, reserva.userId))) {
     throw createForbiddenError(ERROR_MESSAGES.NO_PUEDE_EDITAR_RESERVA);
   }
 
-  // Preparar datos de actualización
-  const updateData: any = {};
+  // Cambios de status: el dueño puede cancelar su reserva mientras no haya
+  // salido (PENDIENTE/CONFIRMADA) o reactivarla; cualquier otra transición
+  // sigue el flujo y los permisos de PATCH /status
+  if (status && status !== reserva.status) {
+    const reactiva = reserva.status === 'CANCELADA' && status === 'PENDIENTE';
+    const cancelaPropia =
+      reserva.userId === userId &&
+      status === 'CANCELADA' &&
+      STATUS_CANCELABLES_POR_DUENO.includes(reserva.status);
+
+    if (!reactiva && !cancelaPropia) {
+      if (!tienePermiso(req.user, PERMISOS.RESERVAS_MANAGE) && reserva.userId === userId) {
+        throw createForbiddenError(ERROR_MESSAGES.RESERVA_STATUS_SOLO_CANCELAR);
+      }
 
-  // Si se actualizan las libras, validar disponibilidad
-  if (libras !== undefined) {
-    const librasDecimal = parseDecimal(libras);
-    
-    // Calcular libras disponibles (excluyendo esta reserva)
-    const librasDisponibles = await calcularLibrasDisponibles(
-      reserva.periodoId,
-      reserva.id
-    );
-    
-    // Validar que las nuevas libras no excedan lo disponible
-    if (librasDecimal > librasDisponibles) {
-      throw createBadRequestError(
-        `No hay suficientes libras disponibles en este periodo. ` +
-        `Solicitadas: ${librasDecimal} lbs, ` +
-        `Disponibles: ${librasDisponibles.toFixed(2)} lbs`
-      );
-    }
+      const canChange = canChangeReservaStatus(req.user.permisos, reserva.status, status);
 
-    updateData.libras = librasDecimal;
+      if (!canChange.allowed) {
+        throw createBadRequestError(canChange.reason || ERROR_MESSAGES.CANNOT_CHANGE_STATUS);
+      }
+    }
   }
 
+  // Preparar datos de actualización
+  const updateData: any = {};
+
   // ✅ ELIMINADO: Todo el bloque de validación de fecha (líneas 387-436)
   // La fecha NO se puede cambiar después de crear la reserva
 
@@ -437,27 +438,108 @@ export const updateReserva = async (
   if (observaciones !== undefined) updateData.observaciones = observaciones;
   if (status) updateData.status = status;
 
-  // Actualizar reserva
-  const updatedReserva = await prisma.reserva.update({
-    where: { id: parseInt(reservaId, 10) },
-    data: updateData,
-    include: {
-      user: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          avatar: true,
+  // Volver a PENDIENTE inicia una nueva retención
+  if (status === 'PENDIENTE' && reserva.status !== 'PENDIENTE') {
+    updateData.retenidaDesde = new Date();
+  }
+
+  // Libras que ocupará la reserva si el cambio consume capacidad:
+  // nuevas libras, o reactivar una reserva cancelada
+  const reactivaReserva =
+    reserva.status === 'CANCELADA' && status !== undefined && status !== 'CANCELADA';
+  const librasSolicitadas =
+    libras !== undefined
+      ? parseDecimal(libras)
+      : reactivaReserva
+        ? parseFloat(reserva.libras.toString())
+        : undefined;
+
+  // El cambio libera capacidad si reduce las libras o cancela la reserva
+  const cancelaReserva = reserva.status !== 'CANCELADA' && status === 'CANCELADA';
+  const liberaCapacidad =
+    cancelaReserva ||
+    (librasSolicitadas !== undefined && librasSolicitadas < parseFloat(reserva.libras.toString()));
+
+  // Validar disponibilidad y actualizar dentro de la misma transacción
+  const updatedReserva = await ejecutarConCapacidad(async (tx) => {
+    if (librasSolicitadas !== undefined || cancelaReserva) {
+      await bloquearPeriodos(tx, [reserva.periodoId]);
+    }
+
+    if (librasSolicitadas !== undefined) {
+      // Cambiar libras o reactivar una reserva solo con el periodo ABIERTO
+      await validarPeriodoAbierto(tx, reserva.periodoId);
+
+      // ...y dentro de la ventana del periodo
+      if (!fueraDeVentana) {
+        validarVentanaAbierta(reserva.periodo);
+      }
+
+      // Calcular libras disponibles (excluyendo esta reserva)
+      const librasDisponibles = await calcularLibrasDisponibles(
+        tx,
+        reserva.periodoId,
+        reserva.id
+      );
+
+      // Validar que las nuevas libras no excedan lo disponible
+      if (librasSolicitadas > librasDisponibles) {
+        throw createBadRequestError(
+          `No hay suficientes libras disponibles en este periodo. ` +
+          `Solicitadas: ${librasSolicitadas} lbs, ` +
+          `Disponibles: ${librasDisponibles.toFixed(2)} lbs`
+        );
+      }
+
+      // ...ni los límites del dueño de la reserva (sin contar esta reserva)
+      const cupos = await calcularCupos(tx, reserva.userId, [reserva.periodo], reserva.id);
+      validarCupoReserva(cupos.get(reserva.periodoId)!, librasSolicitadas, reactivaReserva);
+
+      if (libras !== undefined) {
+        updateData.libras = librasSolicitadas;
+      }
+    }
+
+    // Registrar la transición si cambia el status
+    if (status && status !== reserva.status) {
+      await registrarEventoReserva(tx, {
+        reservaId: reserva.id,
+        statusAnterior: reserva.status,
+        statusNuevo: status,
+        actorId: userId,
+        apiKeyId: req.apiKey?.id,
+      });
+    }
+
+    // Actualizar reserva
+    const actualizada = await tx.reserva.update({
+      where: { id: parseInt(reservaId, 10) },
+      data: updateData,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            avatar: true,
+          },
         },
-      },
-      periodo: {
-        select: {
-          id: true,
-          librasTotales: true,
-          fechaEnvio: true,
+        periodo: {
+          select: {
+            id: true,
+            librasTotales: true,
+            fechaEnvio: true,
+          },
         },
       },
-    },
+    });
+
+    // Promover la lista de espera con la capacidad liberada
+    if (liberaCapacidad) {
+      await promoverListaEspera(tx, reserva.periodoId);
+    }
+
+    return actualizada;
   });
 
   const response: ApiResponse = {
@@ -478,7 +560,7 @@ export const updateReservaStatus = async (
   res: Response
 ): Promise<void> => {
   const { reservaId } = req.params;
-  const { status } = req.body;
+  const { status, motivo } = req.body as UpdateStatusReservaDTO;
 
   if (!reservaId) {
     throw createBadRequestError('ID de reserva requerido');
@@ -493,19 +575,6 @@ export const updateReservaStatus = async (
     throw createNotFoundError(ERROR_MESSAGES.RESERVA_NOT_FOUND);
   }
 
-  // NUEVO: Verificar permisos de cambio de estado
-  const canChange = canChangeReservaStatus(
-    req.user!.role,
-    reserva.status,
-    status
-  );
-
-  if (!canChange.allowed) {
-    throw createBadRequestError(
-      canChange.reason || ERROR_MESSAGES.CANNOT_CHANGE_STATUS
-    );
-  }
-
   // Preparar datos de actualización con tracking
   const updateData: any = { status };
   
@@ -520,26 +589,125 @@ export const updateReservaStatus = async (
     updateData.fechaEntrega = fechaActual;
   }
   
-  // Actualizar status
-  const updatedReserva = await prisma.reserva.update({
+  // Actualizar status y registrar la transición de forma atómica
+  const updatedReserva = await ejecutarConCapacidad(async (tx) => {
+    // Bloquear el periodo serializa los cambios de status de sus reservas
+    // (y una cancelación libera capacidad para la lista de espera)
+    await bloquearPeriodos(tx, [reserva.periodoId]);
+
+    // Validar la transición contra el status vigente, no el leído antes del bloqueo
+    const actual = await tx.reserva.findUniqueOrThrow({
+      where: { id: reserva.id },
+      select: { status: true },
+    });
+
+    const canChange = canChangeReservaStatus(
+      req.user!.permisos,
+      actual.status,
+      status
+    );
+
+    if (!canChange.allowed) {
+      throw createBadRequestError(
+        canChange.reason || ERROR_MESSAGES.CANNOT_CHANGE_STATUS
+      );
+    }
+
+    const actualizada = await tx.reserva.update({
+      where: { id: parseInt(reservaId, 10) },
+      data: updateData,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            avatar: true,
+          },
+        },
+      },
+    });
+
+    await registrarEventoReserva(tx, {
+      reservaId: reserva.id,
+      statusAnterior: actual.status,
+      statusNuevo: status,
+      actorId: req.user!.id,
+      apiKeyId: req.apiKey?.id,
+      motivo,
+    });
+
+    if (status === 'CANCELADA') {
+      await promoverListaEspera(tx, reserva.periodoId);
+    }
+
+    return actualizada;
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: updatedReserva,
+    message: SUCCESS_MESSAGES.RESERVA_STATUS_UPDATED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Obtener historial de estados de una reserva
+ * GET /api/reservas/:reservaId/history
+ */
+export const getReservaHistory = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { reservaId } = req.params;
+
+  if (!reservaId) {
+    throw createBadRequestError('ID de reserva requerido');
+  }
+
+  const reserva = await prisma.reserva.findUnique({
     where: { id: parseInt(reservaId, 10) },
-    data: updateData,
+    select: { id: true, userId: true },
+  });
+
+  if (!reserva) {
+    throw createNotFoundError(ERROR_MESSAGES.RESERVA_NOT_FOUND);
+  }
+
+  // Verificar permisos: sin reservas:read solo puede ver el historial de sus reservas
+  if (!tienePermiso(req.user, PERMISOS.RESERVAS_READ) && reserva.userId !== req.user.id) {
+    throw createForbiddenError(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS);
+  }
+
+  const eventos = await prisma.reservaEvento.findMany({
+    where: { reservaId: reserva.id },
     include: {
-      user: {
+      actor: {
         select: {
           id: true,
           name: true,
           email: true,
-          avatar: true,
+        },
+      },
+      apiKey: {
+        select: {
+          id: true,
+          nombre: true,
         },
       },
     },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
   });
 
   const response: ApiResponse = {
     success: true,
-    data: updatedReserva,
-    message: SUCCESS_MESSAGES.RESERVA_STATUS_UPDATED,
+    data: eventos,
   };
 
   res.status(HTTP_STATUS.OK).json(response);
@@ -573,13 +741,31 @@ export const deleteReserva = async (
   }
 
   // Verificar permisos
-  if (req.user.role === ROLES.USUARIO && reserva.userId !== req.user.id) {
+  if (!(await canDeleteReserva(req, reserva.userId))) {
     throw createForbiddenError(ERROR_MESSAGES.NO_PUEDE_ELIMINAR_RESERVA);
   }
 
-  // Eliminar reserva
-  await prisma.reserva.delete({
-    where: { id: parseInt(reservaId, 10) },
+  // Eliminar reserva y promover la lista de espera con la capacidad liberada
+  await ejecutarConCapacidad(async (tx) => {
+    await bloquearPeriodos(tx, [reserva.periodoId]);
+
+    // Una vez enviado el periodo, la reserva debe llegar al histórico
+    const periodo = await tx.periodoLibras.findUnique({
+      where: { id: reserva.periodoId },
+      select: { status: true },
+    });
+
+    if (periodo && periodo.status !== STATUS_PERIODO.ABIERTO && periodo.status !== STATUS_PERIODO.CERRADO) {
+      throw createBadRequestError(ERROR_MESSAGES.PERIODO_YA_ENVIADO);
+    }
+
+    await tx.reserva.delete({
+      where: { id: parseInt(reservaId, 10) },
+    });
+
+    if (reserva.status !== 'CANCELADA') {
+      await promoverListaEspera(tx, reserva.periodoId);
+    }
   });
 
   const response: ApiResponse = {
@@ -0,0 +1,90 @@
+/**
+ * Controller de Roles y Permisos (Admin)
+ */
+
+import { Response } from 'express';
+import { Role } from '@prisma/client';
+import { AuthenticatedRequest, ApiResponse, UpdatePermisosRolDTO } from '../types';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, ROLES } from '../config/constants';
+import { createBadRequestError } from '../middlewares/errorHandler';
+import {
+  CATALOGO_PERMISOS,
+  listarPermisosPorRol,
+  actualizarPermisosRol,
+  restablecerPermisosRol,
+} from '../services/permisoService';
+
+/**
+ * Validar que el rol admita cambios en sus permisos
+ */
+const validarRolEditable = (role: string): Role => {
+  if (role === ROLES.ADMIN_PRINCIPAL) {
+    throw createBadRequestError(ERROR_MESSAGES.ROL_NO_EDITABLE);
+  }
+
+  return role as Role;
+};
+
+/**
+ * Listar roles con sus permisos y el catálogo de permisos
+ * GET /api/roles
+ */
+export const listRoles = async (
+  _req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const roles = await listarPermisosPorRol();
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      roles,
+      catalogo: CATALOGO_PERMISOS,
+    },
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Reemplazar los permisos de un rol
+ * PUT /api/roles/:role/permisos
+ */
+export const updatePermisosRol = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const role = validarRolEditable(req.params.role!);
+  const { permisos } = req.body as UpdatePermisosRolDTO;
+
+  const actualizados = await actualizarPermisosRol(role, permisos);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { role, permisos: actualizados },
+    message: SUCCESS_MESSAGES.ROL_PERMISOS_UPDATED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Restablecer los permisos por defecto de un rol
+ * DELETE /api/roles/:role/permisos
+ */
+export const resetPermisosRol = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const role = validarRolEditable(req.params.role!);
+
+  const permisos = await restablecerPermisosRol(role);
+
+  const response: ApiResponse = {
+    success: true,
+    data: { role, permisos },
+    message: SUCCESS_MESSAGES.ROL_PERMISOS_UPDATED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
@@ -0,0 +1,239 @@
+/**
+ * Controller de Solicitudes de Asignación (periodos con reparto al corte)
+ */
+
+import { Response } from 'express';
+import { prisma } from '../config/prisma';
+import { AuthenticatedRequest, ApiResponse, CreateSolicitudAsignacionDTO, PaginatedResponse } from '../types';
+import { normalizePagination, calculateTotalPages, parseDecimal } from '../utils/validators';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, PERMISOS } from '../config/constants';
+import {
+  createNotFoundError,
+  createBadRequestError,
+  createConflictError,
+  createForbiddenError,
+} from '../middlewares/errorHandler';
+import { tienePermiso } from '../middlewares/authorization';
+import { ejecutarConCapacidad, bloquearPeriodos } from '../services/capacidadService';
+import { validarVentanaAbierta } from '../services/ventanaReservaService';
+import { calcularCupos, validarCupoReserva } from '../services/cupoReservaService';
+import { resolverEntregaReserva } from '../services/direccionService';
+import { usaSolicitudes } from '../services/asignacionPeriodoService';
+
+/**
+ * Enviar una solicitud de libras
+ * POST /api/solicitudes-asignacion
+ */
+export const createSolicitud = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { periodoId, libras, estado, direccionId, observaciones } = req.body as CreateSolicitudAsignacionDTO;
+  const librasDecimal = parseDecimal(libras);
+  const userId = req.user.id;
+
+  // Destino y copia de la dirección de entrega, igual que en una reserva
+  const entrega = await resolverEntregaReserva(userId, { estado, direccionId });
+
+  const solicitud = await ejecutarConCapacidad(async (tx) => {
+    await bloquearPeriodos(tx, [periodoId]);
+
+    const periodo = await tx.periodoLibras.findFirst({
+      where: { id: periodoId, status: 'ABIERTO' },
+    });
+
+    if (!periodo) {
+      throw createBadRequestError('El periodo seleccionado no existe o no está activo');
+    }
+
+    if (!usaSolicitudes(periodo)) {
+      throw createBadRequestError(ERROR_MESSAGES.PERIODO_SIN_SOLICITUDES);
+    }
+
+    if (periodo.fechaAsignacion) {
+      throw createBadRequestError(ERROR_MESSAGES.ASIGNACION_YA_EJECUTADA);
+    }
+
+    validarVentanaAbierta(periodo);
+
+    // Lo solicitado debe respetar el cupo del usuario (el reparto lo vuelve a recortar)
+    const cupos = await calcularCupos(tx, userId, [periodo]);
+    validarCupoReserva(cupos.get(periodo.id)!, librasDecimal, true);
+
+    // Una solicitud pendiente por usuario y periodo
+    const existente = await tx.solicitudAsignacion.findFirst({
+      where: { periodoId, userId, status: 'PENDIENTE' },
+    });
+
+    if (existente) {
+      throw createConflictError(ERROR_MESSAGES.SOLICITUD_DUPLICADA);
+    }
+
+    return tx.solicitudAsignacion.create({
+      data: {
+        libras: librasDecimal,
+        estado: entrega.estado,
+        direccionEntrega: entrega.direccionEntrega,
+        observaciones: observaciones || null,
+        userId,
+        periodoId,
+      },
+    });
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: solicitud,
+    message: SUCCESS_MESSAGES.SOLICITUD_CREATED,
+  };
+
+  res.status(HTTP_STATUS.CREATED).json(response);
+};
+
+/**
+ * Listar solicitudes
+ * GET /api/solicitudes-asignacion
+ */
+export const listSolicitudes = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { page, limit, periodoId, status, userId } = req.query;
+
+  // Normalizar paginación
+  const pagination = normalizePagination(page as string, limit as string);
+
+  // Construir filtros
+  const where: any = {};
+
+  // Sin periodos:manage, solo ver sus propias solicitudes
+  if (!tienePermiso(req.user, PERMISOS.PERIODOS_MANAGE)) {
+    where.userId = req.user.id;
+  } else if (userId) {
+    where.userId = parseInt(userId as string, 10);
+  }
+
+  if (periodoId) {
+    where.periodoId = parseInt(periodoId as string, 10);
+  }
+
+  if (status) {
+    where.status = status;
+  }
+
+  // Obtener total
+  const total = await prisma.solicitudAsignacion.count({ where });
+
+  // Obtener solicitudes
+  const solicitudes = await prisma.solicitudAsignacion.findMany({
+    where,
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+      periodo: {
+        select: {
+          id: true,
+          librasTotales: true,
+          fechaEnvio: true,
+          fechaCorte: true,
+          modoAsignacion: true,
+          fechaAsignacion: true,
+        },
+      },
+    },
+    skip: pagination.skip,
+    take: pagination.limit,
+    orderBy: { id: 'asc' },
+  });
+
+  const response: PaginatedResponse<typeof solicitudes[0]> = {
+    success: true,
+    data: solicitudes,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: calculateTotalPages(total, pagination.limit),
+    },
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Retirar una solicitud antes del reparto
+ * DELETE /api/solicitudes-asignacion/:solicitudId
+ */
+export const withdrawSolicitud = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    throw createBadRequestError('Usuario no autenticado');
+  }
+
+  const { solicitudId } = req.params;
+
+  if (!solicitudId) {
+    throw createBadRequestError('ID de solicitud requerido');
+  }
+
+  const solicitud = await prisma.solicitudAsignacion.findUnique({
+    where: { id: parseInt(solicitudId, 10) },
+  });
+
+  if (!solicitud) {
+    throw createNotFoundError(ERROR_MESSAGES.SOLICITUD_NOT_FOUND);
+  }
+
+  const puedeGestionar = tienePermiso(req.user, PERMISOS.PERIODOS_MANAGE);
+
+  // Verificar permisos
+  if (!puedeGestionar && solicitud.userId !== req.user.id) {
+    throw createForbiddenError(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS);
+  }
+
+  await ejecutarConCapacidad(async (tx) => {
+    // Serializa con el reparto: una solicitud no se retira a medio repartir
+    await bloquearPeriodos(tx, [solicitud.periodoId]);
+
+    const actual = await tx.solicitudAsignacion.findUnique({
+      where: { id: solicitud.id },
+      include: { periodo: { select: { fechaApertura: true, fechaCorte: true } } },
+    });
+
+    if (!actual || actual.status !== 'PENDIENTE') {
+      throw createBadRequestError(ERROR_MESSAGES.SOLICITUD_NO_PENDIENTE);
+    }
+
+    // Tras el corte la demanda queda fija (salvo que la retire un administrador)
+    if (!puedeGestionar) {
+      validarVentanaAbierta(actual.periodo);
+    }
+
+    await tx.solicitudAsignacion.update({
+      where: { id: solicitud.id },
+      data: { status: 'RETIRADA' },
+    });
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.SOLICITUD_WITHDRAWN,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
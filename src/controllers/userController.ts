@@ -4,10 +4,58 @@
 
 import { Response } from 'express';
 import { prisma } from '../config/prisma';
-import { AuthenticatedRequest, ApiResponse, CreateUserDTO, UpdateUserDTO, PaginatedResponse } from '../types';
+import { AuthenticatedRequest, ApiResponse, CreateUserDTO, UpdateUserDTO, ImportUsersDTO, UpdateLimitesUsuarioDTO, PaginatedResponse } from '../types';
 import { hashPassword, sanitizeEmail, sanitizeText, normalizePagination, calculateTotalPages } from '../utils/validators';
-import { ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS } from '../config/constants';
-import { createConflictError, createNotFoundError, createBadRequestError } from '../middlewares/errorHandler';
+import { CONFIG, ERROR_MESSAGES, SUCCESS_MESSAGES, HTTP_STATUS, ROLES } from '../config/constants';
+import { createConflictError, createNotFoundError, createBadRequestError, createForbiddenError, createValidationError } from '../middlewares/errorHandler';
+import { desbloquearCuenta } from '../services/bloqueoLoginService';
+import { registrarSolicitudImpersonada } from '../services/impersonacionService';
+import { eliminarUsuario, anonimizarUsuario } from '../services/bajaUsuarioService';
+import {
+  validarImportacion,
+  crearUsuariosImportados,
+  enviarAccesoUsuariosImportados,
+} from '../services/importacionUsuarioService';
+import { filaCsv } from '../utils/csv';
+import { generateImpersonationToken } from '../utils/jwt';
+
+/**
+ * Solo un ADMIN_PRINCIPAL puede asignar ese rol o modificar a otro ADMIN_PRINCIPAL
+ * (users:manage puede delegarse a otros roles)
+ */
+const validarGestionAdmin = (req: AuthenticatedRequest, ...roles: (string | undefined)[]): void => {
+  if (req.user?.role !== ROLES.ADMIN_PRINCIPAL && roles.includes(ROLES.ADMIN_PRINCIPAL)) {
+    throw createForbiddenError(ERROR_MESSAGES.ASIGNAR_ADMIN_SOLO_ADMIN);
+  }
+};
+
+const EXPORT_LOTE = 500;
+
+/**
+ * Filtros del listado de usuarios (los dados de baja no se listan)
+ */
+const construirFiltroUsuarios = (query: AuthenticatedRequest['query']) => {
+  const { role, isActive, search } = query;
+
+  const where: any = { deletedAt: null };
+
+  if (role) {
+    where.role = role;
+  }
+
+  if (isActive !== undefined) {
+    where.isActive = String(isActive) === 'true';
+  }
+
+  if (search) {
+    where.OR = [
+      { name: { contains: search as string } },
+      { email: { contains: search as string } },
+    ];
+  }
+
+  return where;
+};
 
 /**
  * Crear usuario (admin)
@@ -19,6 +67,8 @@ export const createUser = async (
 ): Promise<void> => {
   const { name, email, password, role } = req.body as CreateUserDTO;
 
+  validarGestionAdmin(req, role);
+
   // Sanitizar inputs
   const sanitizedEmail = sanitizeEmail(email);
   const sanitizedName = sanitizeText(name);
@@ -42,6 +92,7 @@ export const createUser = async (
       email: sanitizedEmail,
       password: hashedPassword,
       role: role || 'USUARIO',
+      emailVerifiedAt: new Date(), // Creado por el admin: no requiere verificación
     },
     select: {
       id: true,
@@ -70,28 +121,13 @@ export const listUsers = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
-  const { page, limit, role, isActive, search } = req.query;
+  const { page, limit } = req.query;
 
   // Normalizar paginación
   const pagination = normalizePagination(page as string, limit as string);
 
   // Construir filtros
-  const where: any = {};
-
-  if (role) {
-    where.role = role;
-  }
-
-  if (isActive !== undefined) {
-  where.isActive = isActive === 'true';
-}
-
-  if (search) {
-    where.OR = [
-      { name: { contains: search as string } },
-      { email: { contains: search as string } },
-    ];
-  }
+  const where = construirFiltroUsuarios(req.query);
 
   // Obtener total
   const total = await prisma.user.count({ where });
@@ -148,7 +184,11 @@ export const getUserById = async (
       name: true,
       email: true,
       role: true,
+      phone: true,
+      defaultEstado: true,
       isActive: true,
+      deletedAt: true,
+      anonymizedAt: true,
       createdAt: true,
       updatedAt: true,
       _count: {
@@ -191,10 +231,12 @@ export const updateUser = async (
     where: { id: parseInt(userId, 10) },
   });
 
-  if (!existingUser) {
+  if (!existingUser || existingUser.deletedAt) {
     throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
   }
 
+  validarGestionAdmin(req, existingUser.role, role);
+
   // Si se actualiza el email, verificar que no exista
   if (email && email !== existingUser.email) {
     const emailExists = await prisma.user.findUnique({
@@ -246,7 +288,7 @@ export const updateUser = async (
 };
 
 /**
- * Eliminar usuario
+ * Eliminar usuario (baja lógica)
  * DELETE /api/users/:userId
  */
 export const deleteUser = async (
@@ -269,14 +311,14 @@ export const deleteUser = async (
     where: { id: parseInt(userId, 10) },
   });
 
-  if (!user) {
+  if (!user || user.deletedAt) {
     throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
   }
 
-  // Eliminar usuario (las sesiones se eliminan en cascada)
-  await prisma.user.delete({
-    where: { id: parseInt(userId, 10) },
-  });
+  validarGestionAdmin(req, user.role);
+
+  // Baja lógica: las reservas y el histórico se conservan
+  await eliminarUsuario(user.id);
 
   const response: ApiResponse = {
     success: true,
@@ -311,10 +353,12 @@ export const changeUserRole = async (
     where: { id: parseInt(userId, 10) },
   });
 
-  if (!user) {
+  if (!user || user.deletedAt) {
     throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
   }
 
+  validarGestionAdmin(req, user.role, role);
+
   // Actualizar rol
   const updatedUser = await prisma.user.update({
     where: { id: parseInt(userId, 10) },
@@ -335,4 +379,428 @@ export const changeUserRole = async (
   };
 
   res.status(HTTP_STATUS.OK).json(response);
-};
\ No newline at end of file
+};
+
+/**
+ * Desbloquear cuenta tras intentos fallidos de login
+ * POST /api/users/:userId/unlock
+ */
+export const unlockUser = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+
+  if (!userId) {
+    throw createBadRequestError('ID de usuario requerido');
+  }
+
+  // Verificar que el usuario exista
+  const user = await prisma.user.findUnique({
+    where: { id: parseInt(userId, 10) },
+    select: { id: true, email: true, deletedAt: true },
+  });
+
+  if (!user || user.deletedAt) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  await desbloquearCuenta(user.email);
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.USER_UNLOCKED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Impersonar usuario ("ver como usuario", solo lectura)
+ * POST /api/users/:userId/impersonate
+ */
+export const impersonateUser = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+
+  if (!userId) {
+    throw createBadRequestError('ID de usuario requerido');
+  }
+
+  // Solo desde una sesión propia: ni con API key ni encadenando impersonaciones
+  if (!req.user || req.apiKey || req.impersonador) {
+    throw createForbiddenError(ERROR_MESSAGES.IMPERSONATION_NO_PERMITIDA);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: parseInt(userId, 10) },
+    select: { id: true, name: true, email: true, role: true, isActive: true, deletedAt: true },
+  });
+
+  if (!user || user.deletedAt) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  // No impersonarse a sí mismo, a usuarios inactivos ni a otro ADMIN_PRINCIPAL
+  if (user.id === req.user.id || !user.isActive || user.role === ROLES.ADMIN_PRINCIPAL) {
+    throw createForbiddenError(ERROR_MESSAGES.IMPERSONATION_NO_PERMITIDA);
+  }
+
+  const accessToken = generateImpersonationToken(user.id, user.email, user.role, req.user.id);
+
+  // El inicio queda registrado junto con las solicitudes impersonadas
+  await registrarSolicitudImpersonada({
+    impersonadorId: req.user.id,
+    usuarioId: user.id,
+    metodo: req.method,
+    ruta: req.originalUrl,
+    statusCode: HTTP_STATUS.OK,
+    ipAddress: req.ip ?? null,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      accessToken,
+      expiresIn: CONFIG.IMPERSONATION_EXPIRES_IN,
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      },
+    },
+    message: SUCCESS_MESSAGES.IMPERSONATION_STARTED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Anonimizar usuario
+ * POST /api/users/:userId/anonymize
+ */
+export const anonymizeUser = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+
+  if (!userId) {
+    throw createBadRequestError('ID de usuario requerido');
+  }
+
+  // No permitir que el usuario se anonimice a sí mismo
+  if (req.user && req.user.id === parseInt(userId, 10)) {
+    throw createBadRequestError('No puedes anonimizar tu propia cuenta');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: parseInt(userId, 10) },
+    select: { id: true, email: true, avatar: true, role: true, deletedAt: true, anonymizedAt: true },
+  });
+
+  if (!user) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  if (user.anonymizedAt) {
+    throw createBadRequestError(ERROR_MESSAGES.USER_YA_ANONIMIZADO);
+  }
+
+  validarGestionAdmin(req, user.role);
+
+  await anonimizarUsuario(user);
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.USER_ANONYMIZED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Importar usuarios desde CSV
+ * POST /api/users/import
+ * Con dryRun solo valida y reporta; sin errores crea todos los usuarios
+ */
+export const importUsers = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.file) {
+    throw createBadRequestError('No se ha subido ningún archivo');
+  }
+
+  const { dryRun, sendInvitations } = req.body as ImportUsersDTO;
+
+  const validacion = await validarImportacion(
+    req.file.buffer.toString('utf8'),
+    req.user?.role === ROLES.ADMIN_PRINCIPAL
+  );
+  const hayErrores = Object.keys(validacion.errores).length > 0;
+
+  if (dryRun) {
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        dryRun: true,
+        total: validacion.total,
+        validas: validacion.validas.length,
+        usuarios: validacion.validas,
+      },
+      ...(hayErrores ? { errors: validacion.errores } : {}),
+      message: hayErrores
+        ? 'El archivo tiene errores: corrígelos antes de importar'
+        : 'El archivo es válido y se puede importar',
+    };
+
+    res.status(HTTP_STATUS.OK).json(response);
+    return;
+  }
+
+  // Todo o nada: con cualquier fila inválida no se crea ningún usuario
+  if (hayErrores) {
+    throw createValidationError(validacion.errores);
+  }
+
+  const usuarios = await crearUsuariosImportados(validacion.validas);
+
+  const invitacionesEnviadas = sendInvitations
+    ? await enviarAccesoUsuariosImportados(usuarios, req.user!.name)
+    : 0;
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      dryRun: false,
+      total: validacion.total,
+      creados: usuarios.length,
+      invitacionesEnviadas,
+      usuarios,
+    },
+    message: SUCCESS_MESSAGES.USERS_IMPORTED,
+  };
+
+  res.status(HTTP_STATUS.CREATED).json(response);
+};
+
+/**
+ * Escribir en la respuesta respetando la contrapresión:
+ * si el buffer está lleno, esperar a que se vacíe (o a que el cliente se vaya)
+ */
+const escribirRespuesta = (res: Response, chunk: string): Promise<void> => {
+  if (res.write(chunk)) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const continuar = () => {
+      res.off('drain', continuar);
+      res.off('close', continuar);
+      resolve();
+    };
+
+    res.once('drain', continuar);
+    res.once('close', continuar);
+  });
+};
+
+/**
+ * Exportar usuarios a CSV (mismos filtros que el listado)
+ * GET /api/users/export
+ * Se escribe por lotes para no cargar todos los usuarios en memoria;
+ * si el cliente se desconecta se deja de consultar
+ */
+export const exportUsers = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const where = construirFiltroUsuarios(req.query);
+  const fecha = new Date().toISOString().split('T')[0];
+
+  let cerrada = false;
+  res.once('close', () => {
+    cerrada = true;
+  });
+
+  res.status(HTTP_STATUS.OK);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="usuarios-${fecha}.csv"`);
+
+  // BOM para que Excel reconozca UTF-8
+  await escribirRespuesta(res, '\uFEFF');
+  await escribirRespuesta(res, filaCsv(['id', 'name', 'email', 'role', 'phone', 'isActive', 'createdAt']));
+
+  let cursor: number | undefined;
+
+  while (!cerrada) {
+    const lote = await prisma.user.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        phone: true,
+        isActive: true,
+        createdAt: true,
+      },
+      orderBy: { id: 'asc' },
+      take: EXPORT_LOTE,
+      ...(cursor !== undefined ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    for (const user of lote) {
+      if (cerrada) break;
+      await escribirRespuesta(
+        res,
+        filaCsv([user.id, user.name, user.email, user.role, user.phone, user.isActive, user.createdAt])
+      );
+    }
+
+    if (lote.length < EXPORT_LOTE) {
+      break;
+    }
+
+    cursor = lote[lote.length - 1]!.id;
+  }
+
+  if (!cerrada) {
+    res.end();
+  }
+};
+
+/**
+ * Límites globales de reserva (0 = sin límite)
+ */
+const limitesGlobales = () => ({
+  maxLibrasPorUsuario: CONFIG.LIMITE_MAX_LIBRAS_USUARIO,
+  minLibrasReserva: CONFIG.LIMITE_MIN_LIBRAS_RESERVA,
+  maxReservasAbiertas: CONFIG.LIMITE_MAX_RESERVAS_ABIERTAS,
+});
+
+/**
+ * Obtener los límites de reserva de un usuario
+ * GET /api/users/:userId/limites
+ */
+export const getUserLimites = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+
+  if (!userId) {
+    throw createBadRequestError('ID de usuario requerido');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: parseInt(userId, 10) },
+    select: { id: true, deletedAt: true, limites: true },
+  });
+
+  if (!user || user.deletedAt) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      usuario: user.limites,
+      global: limitesGlobales(),
+    },
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Configurar los límites de reserva de un usuario
+ * PUT /api/users/:userId/limites
+ * Sobrescriben los límites del periodo y los globales en todos los periodos
+ */
+export const updateUserLimites = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+  const { maxLibrasPorUsuario, minLibrasReserva, maxReservasAbiertas } = req.body as UpdateLimitesUsuarioDTO;
+
+  if (!userId) {
+    throw createBadRequestError('ID de usuario requerido');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: parseInt(userId, 10) },
+    select: { id: true, deletedAt: true },
+  });
+
+  if (!user || user.deletedAt) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  const data = {
+    maxLibrasPorUsuario: maxLibrasPorUsuario ?? null,
+    minLibrasReserva: minLibrasReserva ?? null,
+    maxReservasAbiertas: maxReservasAbiertas ?? null,
+  };
+
+  const limites = await prisma.limiteUsuario.upsert({
+    where: { userId: user.id },
+    create: { userId: user.id, ...data },
+    update: data,
+  });
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      usuario: limites,
+      global: limitesGlobales(),
+    },
+    message: SUCCESS_MESSAGES.USER_LIMITES_UPDATED,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
+
+/**
+ * Quitar los límites propios de un usuario (vuelve a los del periodo o globales)
+ * DELETE /api/users/:userId/limites
+ */
+export const deleteUserLimites = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+
+  if (!userId) {
+    throw createBadRequestError('ID de usuario requerido');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: parseInt(userId, 10) },
+    select: { id: true, deletedAt: true },
+  });
+
+  if (!user || user.deletedAt) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_NOT_FOUND);
+  }
+
+  const { count } = await prisma.limiteUsuario.deleteMany({
+    where: { userId: user.id },
+  });
+
+  if (count === 0) {
+    throw createNotFoundError(ERROR_MESSAGES.USER_LIMITES_NOT_FOUND);
+  }
+
+  const response: ApiResponse = {
+    success: true,
+    message: SUCCESS_MESSAGES.USER_LIMITES_RESET,
+  };
+
+  res.status(HTTP_STATUS.OK).json(response);
+};
@@ -8,20 +8,94 @@ import { AuthenticatedRequest } from '../types';
 import { verifyAccessToken, extractTokenFromHeader } from '../utils/jwt';
 import { prisma } from '../config/prisma';
 import { ERROR_MESSAGES } from '../config/constants';
-import { createUnauthorizedError } from './errorHandler';
+import { createUnauthorizedError, createForbiddenError } from './errorHandler';
+import { obtenerPermisosRol } from '../services/permisoService';
+import { autenticarApiKey } from '../services/apiKeyService';
+import {
+  cargarImpersonador,
+  esMetodoLectura,
+  registrarSolicitudImpersonada,
+} from '../services/impersonacionService';
+
+/**
+ * Autenticar con el header X-API-Key
+ * La solicitud actúa en nombre del creador de la key, limitada a sus scopes
+ * y a las rutas que declaran uno de ellos (ver asyncHandler)
+ */
+const authenticateApiKey = async (
+  req: AuthenticatedRequest,
+  clave: string
+): Promise<void> => {
+  const resultado = await autenticarApiKey(clave, req.ip);
+
+  if (!resultado) {
+    throw createUnauthorizedError(ERROR_MESSAGES.API_KEY_INVALID);
+  }
+
+  req.user = {
+    id: resultado.user.id,
+    email: resultado.user.email,
+    name: resultado.user.name,
+    role: resultado.user.role,
+    permisos: resultado.permisos,
+  };
+  req.apiKey = resultado.apiKey;
+};
+
+/**
+ * Completar una solicitud impersonada
+ * Es de solo lectura y se registra al cerrar la respuesta, incluidas las
+ * rechazadas y las que el cliente abortó (esas quedan sin statusCode)
+ */
+const authenticateImpersonation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  impersonadorId: number
+): Promise<void> => {
+  const impersonador = await cargarImpersonador(impersonadorId);
+
+  if (!impersonador) {
+    throw createUnauthorizedError(ERROR_MESSAGES.IMPERSONATION_INVALIDA);
+  }
+
+  req.impersonador = impersonador;
+
+  res.on('close', () => {
+    void registrarSolicitudImpersonada({
+      impersonadorId: impersonador.id,
+      usuarioId: req.user!.id,
+      metodo: req.method,
+      ruta: req.originalUrl,
+      statusCode: res.writableFinished ? res.statusCode : null,
+      ipAddress: req.ip ?? null,
+    });
+  });
+
+  if (!esMetodoLectura(req.method)) {
+    throw createForbiddenError(ERROR_MESSAGES.IMPERSONATION_SOLO_LECTURA);
+  }
+};
 
 /**
  * Middleware de autenticación
- * Verifica el Access Token y agrega el usuario al request
+ * Verifica el Access Token (o la API key) y agrega el usuario al request
  */
 export const authenticate = async (
   req: AuthenticatedRequest,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     // Extraer token del header
     const token = extractTokenFromHeader(req.headers.authorization);
+    const apiKey = req.get('X-API-Key');
+
+    // Integraciones: autenticación con API key
+    if (!token && apiKey) {
+      await authenticateApiKey(req, apiKey);
+      next();
+      return;
+    }
 
     if (!token) {
       throw createUnauthorizedError(ERROR_MESSAGES.TOKEN_REQUIRED);
@@ -46,6 +120,7 @@ export const authenticate = async (
         name: true,
         role: true,
         isActive: true,
+        totpEnabledAt: true,
       },
     });
 
@@ -60,8 +135,15 @@ export const authenticate = async (
       email: user.email,
       name: user.name,
       role: user.role,
+      permisos: await obtenerPermisosRol(user.role),
+      totpEnabled: user.totpEnabledAt !== null,
     };
 
+    // Impersonación: exponer también al admin y registrar la solicitud
+    if (payload.impersonadorId) {
+      await authenticateImpersonation(req, res, payload.impersonadorId);
+    }
+
     next();
   } catch (error) {
     next(error);
@@ -93,15 +175,19 @@ export const optionalAuthenticate = async (
             name: true,
             role: true,
             isActive: true,
+            totpEnabledAt: true,
           },
         });
 
-        if (user && user.isActive) {
+        // Los tokens de impersonación solo valen con authenticate (registro y solo lectura)
+        if (user && user.isActive && !payload.impersonadorId) {
           req.user = {
             id: user.id,
             email: user.email,
             name: user.name,
             role: user.role,
+            permisos: await obtenerPermisosRol(user.role),
+            totpEnabled: user.totpEnabledAt !== null,
           };
         }
       } catch {
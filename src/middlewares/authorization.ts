@@ -1,11 +1,11 @@
 /**
  * Middleware de autorización
- * Verifica que el usuario tenga el rol requerido
+ * Verifica que el usuario tenga los permisos requeridos
  */
 
 import { Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from '../types';
-import { ROLES, ERROR_MESSAGES } from '../config/constants';
+import { CONFIG, ROLES, PERMISOS, STATUS_RESERVA, ERROR_MESSAGES } from '../config/constants';
 import { createUnauthorizedError, createForbiddenError } from './errorHandler';
 
 /**
@@ -18,30 +18,34 @@ const ensureAuthenticated = (req: AuthenticatedRequest): void => {
 };
 
 /**
- * Middleware: Requiere que el usuario sea ADMIN_PRINCIPAL
+ * Verificar que el admin tenga 2FA activo cuando es obligatorio
  */
-export const requireAdmin = (
-  req: AuthenticatedRequest,
-  _res: Response,
-  next: NextFunction
-): void => {
-  try {
-    ensureAuthenticated(req);
-
-    if (req.user!.role !== ROLES.ADMIN_PRINCIPAL) {
-      throw createForbiddenError(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS);
-    }
-
-    next();
-  } catch (error) {
-    next(error);
+const ensureTwoFactorForAdmin = (req: AuthenticatedRequest): void => {
+  // Las API keys no tienen segundo factor: su creación ya lo exigió
+  if (
+    !req.apiKey &&
+    CONFIG.TOTP_REQUIRED_FOR_ADMIN &&
+    req.user!.role === ROLES.ADMIN_PRINCIPAL &&
+    !req.user!.totpEnabled
+  ) {
+    throw createForbiddenError(ERROR_MESSAGES.TOTP_REQUIRED_ADMIN);
   }
 };
 
 /**
- * Middleware: Requiere uno de los roles especificados
+ * Verificar si el usuario autenticado tiene un permiso
+ */
+export const tienePermiso = (
+  user: AuthenticatedRequest['user'],
+  permiso: string
+): boolean => {
+  return Boolean(user && user.permisos.includes(permiso));
+};
+
+/**
+ * Middleware: Requiere todos los permisos especificados
  */
-export const requireRole = (allowedRoles: string[]) => {
+export const requirePermission = (...permisos: string[]) => {
   return (
     req: AuthenticatedRequest,
     _res: Response,
@@ -50,10 +54,42 @@ export const requireRole = (allowedRoles: string[]) => {
     try {
       ensureAuthenticated(req);
 
-      if (!allowedRoles.includes(req.user!.role)) {
+      if (!permisos.every((permiso) => tienePermiso(req.user, permiso))) {
         throw createForbiddenError(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS);
       }
 
+      ensureTwoFactorForAdmin(req);
+
+      req.apiKeyScopeVerificado = true;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Middleware: Declarar los scopes con los que una API key puede usar la ruta
+ * Basta uno de ellos; el controller valida el permiso exacto. No afecta a las
+ * solicitudes con token, que siguen las reglas del controller
+ */
+export const requireApiKeyScope = (...scopes: string[]) => {
+  return (
+    req: AuthenticatedRequest,
+    _res: Response,
+    next: NextFunction
+  ): void => {
+    try {
+      ensureAuthenticated(req);
+
+      if (req.apiKey) {
+        if (!scopes.some((scope) => tienePermiso(req.user, scope))) {
+          throw createForbiddenError(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS);
+        }
+
+        req.apiKeyScopeVerificado = true;
+      }
+
       next();
     } catch (error) {
       next(error);
@@ -63,9 +99,9 @@ export const requireRole = (allowedRoles: string[]) => {
 
 /**
  * Middleware: Verificar que el usuario puede acceder al recurso
- * Solo admin o el propio usuario pueden acceder
+ * Solo el propio usuario o quien tenga el permiso pueden acceder
  */
-export const requireOwnershipOrAdmin = (userIdParam: string = 'userId') => {
+export const requireOwnershipOrPermission = (permiso: string, userIdParam: string = 'userId') => {
   return (
     req: AuthenticatedRequest,
     _res: Response,
@@ -86,8 +122,10 @@ export const requireOwnershipOrAdmin = (userIdParam: string = 'userId') => {
         throw createForbiddenError('ID de usuario inválido');
       }
 
-      // Admin puede acceder a cualquier recurso
-      if (req.user!.role === ROLES.ADMIN_PRINCIPAL) {
+      // Con el permiso se puede acceder a cualquier recurso
+      if (tienePermiso(req.user, permiso)) {
+        ensureTwoFactorForAdmin(req);
+        req.apiKeyScopeVerificado = true;
         next();
         return;
       }
@@ -108,7 +146,7 @@ export const requireOwnershipOrAdmin = (userIdParam: string = 'userId') => {
 
 /**
  * Verificar que el usuario pueda editar una reserva
- * Solo el dueño o un admin pueden editar
+ * Solo el dueño o quien tenga reservas:manage pueden editar
  */
 export const canEditReserva = async (
   req: AuthenticatedRequest,
@@ -118,8 +156,8 @@ export const canEditReserva = async (
     return false;
   }
 
-  // Admin puede editar cualquier reserva
-  if (req.user.role === ROLES.ADMIN_PRINCIPAL) {
+  // Con reservas:manage se puede editar cualquier reserva
+  if (tienePermiso(req.user, PERMISOS.RESERVAS_MANAGE)) {
     return true;
   }
 
@@ -129,7 +167,7 @@ export const canEditReserva = async (
 
 /**
  * Verificar que el usuario pueda eliminar una reserva
- * Solo el dueño o un admin pueden eliminar
+ * Solo el dueño o quien tenga reservas:manage pueden eliminar
  */
 export const canDeleteReserva = async (
   req: AuthenticatedRequest,
@@ -139,8 +177,8 @@ export const canDeleteReserva = async (
     return false;
   }
 
-  // Admin puede eliminar cualquier reserva
-  if (req.user.role === ROLES.ADMIN_PRINCIPAL) {
+  // Con reservas:manage se puede eliminar cualquier reserva
+  if (tienePermiso(req.user, PERMISOS.RESERVAS_MANAGE)) {
     return true;
   }
 
@@ -148,25 +186,33 @@ export const canDeleteReserva = async (
   return req.user.id === reservaUserId;
 };
 
+/**
+ * Permiso requerido para llevar una reserva a cada estado
+ */
+export const PERMISO_POR_STATUS_RESERVA: Record<string, string> = {
+  [STATUS_RESERVA.CONFIRMADA]: PERMISOS.RESERVAS_CONFIRM,
+  [STATUS_RESERVA.ENVIADA]: PERMISOS.RESERVAS_SHIP,
+  [STATUS_RESERVA.ENTREGADA]: PERMISOS.RESERVAS_DELIVER,
+  [STATUS_RESERVA.CANCELADA]: PERMISOS.RESERVAS_CANCEL,
+};
+
 /**
  * Verificar si el usuario puede cambiar el estado de una reserva
- * @param userRole - Rol del usuario
+ * @param permisos - Permisos del usuario
  * @param currentStatus - Estado actual de la reserva
  * @param newStatus - Nuevo estado deseado
  * @returns boolean
  */
 export const canChangeReservaStatus = (
-  userRole: string,
+  permisos: readonly string[],
   currentStatus: string,
   newStatus: string
 ): { allowed: boolean; reason?: string } => {
-  const { STATUS_RESERVA, ROLES } = require('../config/constants');
-
   // No se puede modificar reservas ya entregadas o canceladas
   if (currentStatus === STATUS_RESERVA.ENTREGADA || currentStatus === STATUS_RESERVA.CANCELADA) {
     return {
       allowed: false,
-      reason: 'No se puede modificar una reserva entregada o cancelada',
+      reason: ERROR_MESSAGES.CANNOT_MODIFY_FINAL_STATUS,
     };
   }
 
@@ -174,43 +220,33 @@ export const canChangeReservaStatus = (
   if (currentStatus === newStatus) {
     return {
       allowed: false,
-      reason: 'La reserva ya tiene este estado',
+      reason: ERROR_MESSAGES.STATUS_ALREADY_SET,
     };
   }
 
-  // ADMIN_PRINCIPAL puede hacer cualquier transición válida
-  if (userRole === ROLES.ADMIN_PRINCIPAL) {
-    // Validar transiciones válidas para ADMIN_PRINCIPAL
-    const validTransitions: Record<string, string[]> = {
-      [STATUS_RESERVA.PENDIENTE]: [STATUS_RESERVA.CONFIRMADA, STATUS_RESERVA.CANCELADA],
-      [STATUS_RESERVA.CONFIRMADA]: [STATUS_RESERVA.ENVIADA, STATUS_RESERVA.CANCELADA],
-      [STATUS_RESERVA.ENVIADA]: [STATUS_RESERVA.ENTREGADA, STATUS_RESERVA.CANCELADA],
-    };
-
-    if (validTransitions[currentStatus]?.includes(newStatus)) {
-      return { allowed: true };
-    }
+  // Transiciones válidas del workflow
+  const validTransitions: Record<string, string[]> = {
+    [STATUS_RESERVA.PENDIENTE]: [STATUS_RESERVA.CONFIRMADA, STATUS_RESERVA.CANCELADA],
+    [STATUS_RESERVA.CONFIRMADA]: [STATUS_RESERVA.ENVIADA, STATUS_RESERVA.CANCELADA],
+    [STATUS_RESERVA.ENVIADA]: [STATUS_RESERVA.ENTREGADA, STATUS_RESERVA.CANCELADA],
+  };
 
+  if (!validTransitions[currentStatus]?.includes(newStatus)) {
     return {
       allowed: false,
       reason: `No se puede cambiar de ${currentStatus} a ${newStatus}`,
     };
   }
 
-  // USUARIO (otros admins) solo pueden cambiar CONFIRMADA → ENVIADA
-  if (userRole === ROLES.USUARIO) {
-    if (currentStatus === STATUS_RESERVA.CONFIRMADA && newStatus === STATUS_RESERVA.ENVIADA) {
-      return { allowed: true };
-    }
+  // Cada estado destino requiere su propio permiso
+  const permiso = PERMISO_POR_STATUS_RESERVA[newStatus];
 
+  if (!permiso || !permisos.includes(permiso)) {
     return {
       allowed: false,
-      reason: 'Solo puedes cambiar reservas confirmadas a enviadas',
+      reason: ERROR_MESSAGES.CANNOT_CHANGE_STATUS,
     };
   }
 
-  return {
-    allowed: false,
-    reason: 'No tienes permisos para cambiar estados',
-  };
-};
\ No newline at end of file
+  return { allowed: true };
+};
@@ -12,6 +12,7 @@ import { HTTP_STATUS, ERROR_MESSAGES } from '../config/constants';
 export class AppError extends Error implements CustomError {
   public statusCode: number;
   public errors?: Record<string, string[]>;
+  public retryAfter?: number; // Segundos para el header Retry-After
 
   constructor(
     message: string,
@@ -76,6 +77,18 @@ export const createBadRequestError = (message: string): AppError => {
   return new AppError(message, HTTP_STATUS.BAD_REQUEST);
 };
 
+/**
+ * Crear error de demasiadas solicitudes
+ */
+export const createTooManyRequestsError = (
+  message: string,
+  retryAfter?: number
+): AppError => {
+  const error = new AppError(message, HTTP_STATUS.TOO_MANY_REQUESTS);
+  error.retryAfter = retryAfter;
+  return error;
+};
+
 /**
  * Middleware para manejar rutas no encontradas
  */
@@ -109,6 +122,10 @@ export const errorHandler = (
 
   // Si es un AppError, usar sus propiedades
   if (err instanceof AppError) {
+    if (err.retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(err.retryAfter));
+    }
+
     const response: ApiResponse = {
       success: false,
       message: err.message,
@@ -133,12 +150,19 @@ export const errorHandler = (
 
 /**
  * Wrapper para funciones async de Express
- * Captura errores automáticamente
+ * Captura errores automáticamente. Una solicitud con API key solo llega al
+ * handler si la ruta declaró un scope que la key tiene (requirePermission
+ * o requireApiKeyScope): sin scope declarado se rechaza
  */
 export const asyncHandler = (
   fn: (req: AuthenticatedRequest, res: Response, next: NextFunction) => Promise<void>
 ) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (req.apiKey && !req.apiKeyScopeVerificado) {
+      next(createForbiddenError(ERROR_MESSAGES.API_KEY_RUTA_NO_PERMITIDA));
+      return;
+    }
+
     Promise.resolve(fn(req, res, next)).catch(next);
   };
 };
\ No newline at end of file
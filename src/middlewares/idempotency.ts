@@ -0,0 +1,159 @@
+/**
+ * Middleware de idempotencia
+ * Guarda la primera respuesta por Idempotency-Key y usuario,
+ * y la devuelve en los reintentos sin ejecutar de nuevo el handler
+ */
+
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { AuthenticatedRequest } from '../types';
+import { prisma } from '../config/prisma';
+import { CONFIG, ERROR_MESSAGES, HTTP_STATUS } from '../config/constants';
+import { AppError, createBadRequestError, createConflictError, createUnauthorizedError } from './errorHandler';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+/**
+ * Hash de la solicitud para detectar reutilización de clave con otro contenido
+ */
+const hashRequest = (req: AuthenticatedRequest): string => {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method}:${req.originalUrl}:${JSON.stringify(req.body ?? {})}`)
+    .digest('hex');
+};
+
+/**
+ * Middleware: Idempotency-Key opcional
+ * Debe registrarse después de authenticate y de las validaciones
+ */
+export const idempotency = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const key = req.header(IDEMPOTENCY_HEADER);
+
+    // Sin header, la solicitud se procesa normalmente
+    if (!key) {
+      next();
+      return;
+    }
+
+    if (key.length > 255) {
+      throw createBadRequestError(ERROR_MESSAGES.IDEMPOTENCY_KEY_INVALID);
+    }
+
+    if (!req.user) {
+      throw createUnauthorizedError();
+    }
+
+    const userId = req.user.id;
+    const requestHash = hashRequest(req);
+
+    // Buscar una respuesta previa para esta clave
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    if (existing && existing.expiresAt < new Date()) {
+      // Clave vencida: se descarta y se procesa como nueva
+      await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+    } else if (existing) {
+      if (existing.requestHash !== requestHash) {
+        throw new AppError(ERROR_MESSAGES.IDEMPOTENCY_KEY_MISMATCH, HTTP_STATUS.UNPROCESSABLE_ENTITY);
+      }
+
+      if (existing.status === 'EN_PROCESO') {
+        throw createConflictError(ERROR_MESSAGES.IDEMPOTENCY_KEY_IN_PROGRESS);
+      }
+
+      // Repetición: devolver la respuesta guardada
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.statusCode ?? HTTP_STATUS.OK).json(existing.responseBody);
+      return;
+    }
+
+    // Reservar la clave antes de ejecutar el handler
+    let record;
+    try {
+      record = await prisma.idempotencyKey.create({
+        data: {
+          key,
+          userId,
+          method: req.method,
+          path: req.originalUrl.substring(0, 500),
+          requestHash,
+          expiresAt: new Date(Date.now() + CONFIG.IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+    } catch (error) {
+      // Otra solicitud concurrente reservó la misma clave
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createConflictError(ERROR_MESSAGES.IDEMPOTENCY_KEY_IN_PROGRESS);
+      }
+      throw error;
+    }
+
+    // Capturar el body de la respuesta (incluye errores del errorHandler)
+    let responseBody: unknown;
+    let capturado = false;
+    let conexionCerrada = false;
+    let finalizada = false;
+
+    const finalizar = (): void => {
+      if (finalizada) return;
+      finalizada = true;
+
+      const guardar =
+        capturado && res.statusCode < HTTP_STATUS.INTERNAL_SERVER_ERROR
+          ? prisma.idempotencyKey.update({
+              where: { id: record.id },
+              data: {
+                status: 'COMPLETADA',
+                statusCode: res.statusCode,
+                responseBody: (responseBody ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+              },
+            })
+          : // Errores del servidor o respuesta sin body: el cliente puede reintentar
+            prisma.idempotencyKey.delete({ where: { id: record.id } });
+
+      guardar.catch((error: unknown) => {
+        console.error('❌ Error al guardar respuesta idempotente:', error);
+      });
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      capturado = true;
+      const result = originalJson(body);
+      // El cliente se desconectó antes de que el handler terminara: 'finish'
+      // ya no se emitirá, así que la respuesta se guarda aquí para el reintento
+      if (conexionCerrada) finalizar();
+      return result;
+    };
+
+    res.on('finish', () => {
+      // Respuestas sin JSON (p. ej. 204) también cuentan como completadas
+      capturado = true;
+      finalizar();
+    });
+
+    res.on('close', () => {
+      if (res.writableFinished) return;
+      conexionCerrada = true;
+
+      // Con la respuesta ya capturada se guarda; si se envió algo que no es JSON
+      // no hay nada que repetir y se libera la clave. En otro caso el handler
+      // sigue en curso y la clave queda EN_PROCESO hasta que llame a res.json
+      if (capturado || res.headersSent) finalizar();
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -45,4 +45,23 @@ export const upload = multer({
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB máximo
   },
-});
\ No newline at end of file
+});
+
+// Archivos CSV (importación de usuarios): se procesan en memoria
+const csvFileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedMimes = ['text/csv', 'text/plain', 'application/csv', 'application/vnd.ms-excel'];
+
+  if (allowedMimes.includes(file.mimetype) || path.extname(file.originalname).toLowerCase() === '.csv') {
+    cb(null, true);
+  } else {
+    cb(createBadRequestError('Solo se permiten archivos CSV'));
+  }
+};
+
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: csvFileFilter,
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB máximo
+  },
+});
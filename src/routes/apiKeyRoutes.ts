@@ -0,0 +1,59 @@
+/**
+ * Rutas de API keys (api-keys:manage)
+ */
+
+import { Router } from 'express';
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from '../controllers/apiKeyController';
+import { authenticate } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/authorization';
+import { PERMISOS } from '../config/constants';
+import { runValidations } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+import {
+  createApiKeyValidation,
+  revokeApiKeyValidation,
+} from '../validators/apiKeyValidators';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y el permiso api-keys:manage
+router.use(authenticate);
+router.use(requirePermission(PERMISOS.API_KEYS_MANAGE));
+
+/**
+ * POST /api/api-keys
+ * Crear API key (la clave solo se muestra en esta respuesta)
+ * Permiso: api-keys:manage
+ */
+router.post(
+  '/',
+  runValidations(createApiKeyValidation),
+  asyncHandler(createApiKey)
+);
+
+/**
+ * GET /api/api-keys
+ * Listar API keys con su último uso
+ * Permiso: api-keys:manage
+ */
+router.get(
+  '/',
+  asyncHandler(listApiKeys)
+);
+
+/**
+ * DELETE /api/api-keys/:apiKeyId
+ * Revocar API key
+ * Permiso: api-keys:manage
+ */
+router.delete(
+  '/:apiKeyId',
+  runValidations(revokeApiKeyValidation),
+  asyncHandler(revokeApiKey)
+);
+
+export default router;
@@ -6,22 +6,42 @@ import { Router } from 'express';
 import {
   register,
   login,
+  loginTwoFactor,
   refresh,
   logout,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
   getProfile,
   updateProfile,
   changePassword,
   getSessions,
   deleteSession,
 } from '../controllers/authController';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '../controllers/dosFactoresController';
+import { acceptInvitacion } from '../controllers/invitacionController';
 import { authenticate } from '../middlewares/auth';
 import { runValidations } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
 import {
   registerValidation,
+  acceptInvitacionValidation,
   loginValidation,
+  loginTwoFactorValidation,
+  codigoTotpValidation,
+  disableTwoFactorValidation,
   refreshTokenValidation,
   logoutValidation,
+  verifyEmailValidation,
+  resendVerificationValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
   updateProfileValidation,
   changePasswordValidation,
   deleteSessionValidation,
@@ -32,7 +52,7 @@ const router = Router();
 /**
  * POST /api/auth/register
  * Registrar nuevo usuario
- * Público
+ * Público (solo con REGISTRATION_MODE=open)
  */
 router.post(
   '/register',
@@ -51,9 +71,20 @@ router.post(
   asyncHandler(login)
 );
 
+/**
+ * POST /api/auth/login/2fa
+ * Segundo paso del login con código TOTP o de recuperación
+ * Público
+ */
+router.post(
+  '/login/2fa',
+  runValidations(loginTwoFactorValidation),
+  asyncHandler(loginTwoFactor)
+);
+
 /**
  * POST /api/auth/refresh
- * Refrescar access token
+ * Refrescar access token y rotar el refresh token
  * Público
  */
 router.post(
@@ -73,6 +104,61 @@ router.post(
   asyncHandler(logout)
 );
 
+/**
+ * POST /api/auth/accept-invitation
+ * Aceptar invitación definiendo nombre y contraseña
+ * Público
+ */
+router.post(
+  '/accept-invitation',
+  runValidations(acceptInvitacionValidation),
+  asyncHandler(acceptInvitacion)
+);
+
+/**
+ * POST /api/auth/verify-email
+ * Verificar email con el token recibido por correo
+ * Público
+ */
+router.post(
+  '/verify-email',
+  runValidations(verifyEmailValidation),
+  asyncHandler(verifyEmail)
+);
+
+/**
+ * POST /api/auth/resend-verification
+ * Reenviar enlace de verificación
+ * Público
+ */
+router.post(
+  '/resend-verification',
+  runValidations(resendVerificationValidation),
+  asyncHandler(resendVerification)
+);
+
+/**
+ * POST /api/auth/forgot-password
+ * Solicitar enlace para restablecer contraseña
+ * Público
+ */
+router.post(
+  '/forgot-password',
+  runValidations(forgotPasswordValidation),
+  asyncHandler(forgotPassword)
+);
+
+/**
+ * POST /api/auth/reset-password
+ * Restablecer contraseña con el token recibido por correo
+ * Público
+ */
+router.post(
+  '/reset-password',
+  runValidations(resetPasswordValidation),
+  asyncHandler(resetPassword)
+);
+
 /**
  * GET /api/auth/me
  * Obtener perfil del usuario autenticado
@@ -131,4 +217,51 @@ router.delete(
   asyncHandler(deleteSession)
 );
 
+/**
+ * POST /api/auth/2fa/setup
+ * Generar secreto TOTP y URI otpauth
+ * Privado
+ */
+router.post(
+  '/2fa/setup',
+  authenticate,
+  asyncHandler(setupTwoFactor)
+);
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirmar secreto con un código y activar 2FA
+ * Privado
+ */
+router.post(
+  '/2fa/enable',
+  authenticate,
+  runValidations(codigoTotpValidation),
+  asyncHandler(enableTwoFactor)
+);
+
+/**
+ * POST /api/auth/2fa/disable
+ * Desactivar 2FA
+ * Privado
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  runValidations(disableTwoFactorValidation),
+  asyncHandler(disableTwoFactor)
+);
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Regenerar códigos de recuperación
+ * Privado
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  runValidations(codigoTotpValidation),
+  asyncHandler(regenerateRecoveryCodes)
+);
+
 export default router;
\ No newline at end of file
@@ -10,7 +10,9 @@ import {
   getReportes,
 } from '../controllers/dashboardController';
 import { authenticate } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/authorization';
 import { asyncHandler } from '../middlewares/errorHandler';
+import { PERMISOS } from '../config/constants';
 
 const router = Router();
 
@@ -50,10 +52,11 @@ router.get(
 /**
  * GET /api/dashboard/reportes
  * Obtener reportes avanzados
- * Usuario/Admin
+ * reportes:read
  */
 router.get(
   '/reportes',
+  requirePermission(PERMISOS.REPORTES_READ),
   asyncHandler(getReportes)
 );
 export default router;
\ No newline at end of file
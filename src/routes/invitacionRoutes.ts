@@ -0,0 +1,73 @@
+/**
+ * Rutas de Invitaciones (users:manage)
+ */
+
+import { Router } from 'express';
+import {
+  createInvitacion,
+  listInvitaciones,
+  resendInvitacion,
+  revokeInvitacion,
+} from '../controllers/invitacionController';
+import { authenticate } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/authorization';
+import { PERMISOS } from '../config/constants';
+import { runValidations } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+import {
+  createInvitacionValidation,
+  listInvitacionesValidation,
+  invitacionIdValidation,
+} from '../validators/invitacionValidators';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y el permiso users:manage
+router.use(authenticate);
+router.use(requirePermission(PERMISOS.USERS_MANAGE));
+
+/**
+ * POST /api/users/invitations
+ * Invitar a un usuario con rol preasignado
+ * Permiso: users:manage
+ */
+router.post(
+  '/',
+  runValidations(createInvitacionValidation),
+  asyncHandler(createInvitacion)
+);
+
+/**
+ * GET /api/users/invitations
+ * Listar invitaciones con su estado
+ * Permiso: users:manage
+ */
+router.get(
+  '/',
+  runValidations(listInvitacionesValidation),
+  asyncHandler(listInvitaciones)
+);
+
+/**
+ * POST /api/users/invitations/:invitacionId/resend
+ * Reenviar invitación con un enlace nuevo
+ * Permiso: users:manage
+ */
+router.post(
+  '/:invitacionId/resend',
+  runValidations(invitacionIdValidation),
+  asyncHandler(resendInvitacion)
+);
+
+/**
+ * DELETE /api/users/invitations/:invitacionId
+ * Revocar invitación
+ * Permiso: users:manage
+ */
+router.delete(
+  '/:invitacionId',
+  runValidations(invitacionIdValidation),
+  asyncHandler(revokeInvitacion)
+);
+
+export default router;
@@ -0,0 +1,58 @@
+/**
+ * Rutas de Lista de Espera
+ */
+
+import { Router } from 'express';
+import {
+  joinListaEspera,
+  listListaEspera,
+  leaveListaEspera,
+} from '../controllers/listaEsperaController';
+import { authenticate } from '../middlewares/auth';
+import { runValidations } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+import {
+  joinListaEsperaValidation,
+  listListaEsperaValidation,
+  leaveListaEsperaValidation,
+} from '../validators/listaEsperaValidators';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticate);
+
+/**
+ * POST /api/lista-espera
+ * Unirse a la lista de espera de un periodo lleno
+ * Usuario/Admin
+ */
+router.post(
+  '/',
+  runValidations(joinListaEsperaValidation),
+  asyncHandler(joinListaEspera)
+);
+
+/**
+ * GET /api/lista-espera
+ * Listar entradas con su posición en la cola
+ * Usuario (solo sus entradas) / lista-espera:manage (todas)
+ */
+router.get(
+  '/',
+  runValidations(listListaEsperaValidation),
+  asyncHandler(listListaEspera)
+);
+
+/**
+ * DELETE /api/lista-espera/:entradaId
+ * Salir de la lista de espera
+ * Usuario (solo su entrada) / lista-espera:manage (cualquiera)
+ */
+router.delete(
+  '/:entradaId',
+  runValidations(leaveListaEsperaValidation),
+  asyncHandler(leaveListaEspera)
+);
+
+export default router;
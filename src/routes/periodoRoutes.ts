@@ -1,5 +1,5 @@
 /**
- * Rutas de Periodos (Admin)
+ * Rutas de Periodos
  */
 
 import { Router } from 'express';
@@ -10,16 +10,26 @@ import {
   getPeriodosDisponibles,
   getPeriodoById,
   updatePeriodo,
+  updatePeriodoStatus,
+  previewClosePeriodo,
   closePeriodo,
+  reopenPeriodo,
+  previewAsignacionPeriodo,
+  asignarPeriodo,
 } from '../controllers/periodoController';
 import { authenticate } from '../middlewares/auth';
-import { requireAdmin } from '../middlewares/authorization';
+import { idempotency } from '../middlewares/idempotency';
+import { requirePermission } from '../middlewares/authorization';
+import { PERMISOS } from '../config/constants';
 import { runValidations } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
 import {
   createPeriodoValidation,
   updatePeriodoValidation,
+  updateStatusPeriodoValidation,
   closePeriodoValidation,
+  reopenPeriodoValidation,
+  asignacionPeriodoValidation,
   getPeriodoByIdValidation,
   listPeriodosValidation,  
 } from '../validators/periodoValidators';
@@ -52,11 +62,11 @@ router.get(
 /**
  * POST /api/periodos
  * Crear periodo
- * Solo Admin
+ * Permiso: periodos:manage
  */
 router.post(
   '/',
-  requireAdmin,
+  requirePermission(PERMISOS.PERIODOS_MANAGE),
   runValidations(createPeriodoValidation),
   asyncHandler(createPeriodo)
 );
@@ -64,11 +74,11 @@ router.post(
 /**
  * GET /api/periodos
  * Listar periodos
- * Solo Admin
+ * Permiso: periodos:read
  */
 router.get(
   '/',
-  requireAdmin,
+  requirePermission(PERMISOS.PERIODOS_READ),
   runValidations(listPeriodosValidation),
   asyncHandler(listPeriodos)
 );
@@ -76,11 +86,11 @@ router.get(
 /**
  * GET /api/periodos/:periodoId
  * Obtener periodo por ID
- * Solo Admin
+ * Permiso: periodos:read
  */
 router.get(
   '/:periodoId',
-  requireAdmin,
+  requirePermission(PERMISOS.PERIODOS_READ),
   runValidations(getPeriodoByIdValidation),
   asyncHandler(getPeriodoById)
 );
@@ -88,25 +98,89 @@ router.get(
 /**
  * PATCH /api/periodos/:periodoId
  * Actualizar periodo
- * Solo Admin
+ * Permiso: periodos:manage
  */
 router.patch(
   '/:periodoId',
-  requireAdmin,
+  requirePermission(PERMISOS.PERIODOS_MANAGE),
   runValidations(updatePeriodoValidation),
   asyncHandler(updatePeriodo)
 );
 
+/**
+ * PATCH /api/periodos/:periodoId/status
+ * Cambiar el estado del ciclo de vida del periodo
+ * Permiso: periodos:close
+ */
+router.patch(
+  '/:periodoId/status',
+  requirePermission(PERMISOS.PERIODOS_CLOSE),
+  runValidations(updateStatusPeriodoValidation),
+  idempotency,
+  asyncHandler(updatePeriodoStatus)
+);
+
+/**
+ * GET /api/periodos/:periodoId/close/preview
+ * Ver qué se movería al histórico al archivar
+ * Permiso: periodos:close
+ */
+router.get(
+  '/:periodoId/close/preview',
+  requirePermission(PERMISOS.PERIODOS_CLOSE),
+  runValidations(closePeriodoValidation),
+  asyncHandler(previewClosePeriodo)
+);
+
 /**
  * POST /api/periodos/:periodoId/close
  * Cerrar y archivar periodo
- * Solo Admin
+ * Permiso: periodos:close
  */
 router.post(
   '/:periodoId/close',
-  requireAdmin,
+  requirePermission(PERMISOS.PERIODOS_CLOSE),
   runValidations(closePeriodoValidation),
+  idempotency,
   asyncHandler(closePeriodo)
 );
 
+/**
+ * POST /api/periodos/:periodoId/reopen
+ * Reabrir periodo archivado y restaurar sus reservas
+ * Permiso: periodos:close
+ */
+router.post(
+  '/:periodoId/reopen',
+  requirePermission(PERMISOS.PERIODOS_CLOSE),
+  runValidations(reopenPeriodoValidation),
+  idempotency,
+  asyncHandler(reopenPeriodo)
+);
+
+/**
+ * GET /api/periodos/:periodoId/asignacion/preview
+ * Ver cómo se repartirían las libras entre las solicitudes
+ * Permiso: periodos:manage
+ */
+router.get(
+  '/:periodoId/asignacion/preview',
+  requirePermission(PERMISOS.PERIODOS_MANAGE),
+  runValidations(asignacionPeriodoValidation),
+  asyncHandler(previewAsignacionPeriodo)
+);
+
+/**
+ * POST /api/periodos/:periodoId/asignacion
+ * Ejecutar el reparto al corte y crear las reservas
+ * Permiso: periodos:manage
+ */
+router.post(
+  '/:periodoId/asignacion',
+  requirePermission(PERMISOS.PERIODOS_MANAGE),
+  runValidations(asignacionPeriodoValidation),
+  idempotency,
+  asyncHandler(asignarPeriodo)
+);
+
 export default router;
\ No newline at end of file
@@ -10,6 +10,12 @@ import {
   uploadAvatar,
   deleteAvatar,
 } from '../controllers/profileController';
+import {
+  listDirecciones,
+  createDireccion,
+  updateDireccion,
+  deleteDireccion,
+} from '../controllers/direccionController';
 import { authenticate } from '../middlewares/auth';
 import { upload } from '../middlewares/uploadMiddleware';
 import { runValidations } from '../middlewares/validation';
@@ -18,6 +24,11 @@ import {
   updateProfileValidation,
   changeProfilePasswordValidation,
 } from '../validators/profileValidators';
+import {
+  createDireccionValidation,
+  updateDireccionValidation,
+  deleteDireccionValidation,
+} from '../validators/direccionValidators';
 
 const router = Router();
 
@@ -32,7 +43,7 @@ router.get('/', asyncHandler(getProfile));
 
 /**
  * PATCH /api/profile
- * Actualizar nombre del perfil
+ * Actualizar nombre, teléfono y destino predeterminado
  */
 router.patch(
   '/',
@@ -69,4 +80,40 @@ router.delete(
   asyncHandler(deleteAvatar)
 );
 
+/**
+ * GET /api/profile/addresses
+ * Listar direcciones de entrega
+ */
+router.get('/addresses', asyncHandler(listDirecciones));
+
+/**
+ * POST /api/profile/addresses
+ * Agregar dirección (la primera queda como predeterminada)
+ */
+router.post(
+  '/addresses',
+  runValidations(createDireccionValidation),
+  asyncHandler(createDireccion)
+);
+
+/**
+ * PATCH /api/profile/addresses/:direccionId
+ * Actualizar dirección o marcarla como predeterminada
+ */
+router.patch(
+  '/addresses/:direccionId',
+  runValidations(updateDireccionValidation),
+  asyncHandler(updateDireccion)
+);
+
+/**
+ * DELETE /api/profile/addresses/:direccionId
+ * Eliminar dirección
+ */
+router.delete(
+  '/addresses/:direccionId',
+  runValidations(deleteDireccionValidation),
+  asyncHandler(deleteDireccion)
+);
+
 export default router;
\ No newline at end of file
@@ -5,27 +5,35 @@
 import { Router } from 'express';
 import {
   createReserva,
+  previewReserva,
   listReservas,
   getReservaById,
   updateReserva,
   updateReservaStatus,
+  getReservaHistory,
   deleteReserva,
 } from '../controllers/reservaController';
 import { authenticate } from '../middlewares/auth';
+import { requireApiKeyScope } from '../middlewares/authorization';
+import { idempotency } from '../middlewares/idempotency';
 import { runValidations } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
+import { PERMISOS } from '../config/constants';
 import {
   createReservaValidation,
+  previewReservaValidation,
   updateReservaValidation,
   updateStatusReservaValidation,
   deleteReservaValidation,
   getReservaByIdValidation,
+  getReservaHistoryValidation,
   listReservasValidation,
 } from '../validators/reservaValidators';
 
 const router = Router();
 
 // Todas las rutas requieren autenticación
+// (con API key solo las que declaran un scope)
 router.use(authenticate);
 
 /**
@@ -36,16 +44,29 @@ router.use(authenticate);
 router.post(
   '/',
   runValidations(createReservaValidation),
+  idempotency,
   asyncHandler(createReserva)
 );
 
+/**
+ * POST /api/reservas/preview
+ * Vista previa del reparto entre periodos (no crea nada)
+ * Usuario/Admin
+ */
+router.post(
+  '/preview',
+  runValidations(previewReservaValidation),
+  asyncHandler(previewReserva)
+);
+
 /**
  * GET /api/reservas
  * Listar reservas con filtros
- * Usuario (solo sus reservas) / Admin (todas)
+ * Usuario (solo sus reservas) / reservas:read (todas)
  */
 router.get(
   '/',
+  requireApiKeyScope(PERMISOS.RESERVAS_READ),
   runValidations(listReservasValidation),
   asyncHandler(listReservas)
 );
@@ -53,10 +74,11 @@ router.get(
 /**
  * GET /api/reservas/:reservaId
  * Obtener reserva por ID
- * Usuario (solo su reserva) / Admin (cualquiera)
+ * Usuario (solo su reserva) / reservas:read (cualquiera)
  */
 router.get(
   '/:reservaId',
+  requireApiKeyScope(PERMISOS.RESERVAS_READ),
   runValidations(getReservaByIdValidation),
   asyncHandler(getReservaById)
 );
@@ -64,7 +86,7 @@ router.get(
 /**
  * PATCH /api/reservas/:reservaId
  * Actualizar reserva
- * Usuario (solo su reserva) / Admin (cualquiera)
+ * Usuario (solo su reserva) / reservas:manage (cualquiera)
  */
 router.patch(
   '/:reservaId',
@@ -75,18 +97,37 @@ router.patch(
 /**
  * PATCH /api/reservas/:reservaId/status
  * Actualizar solo el status de una reserva
- * Solo Admin
+ * Permiso según el estado destino (reservas:confirm, :ship, :deliver, :cancel)
  */
 router.patch(
-  '/:reservaId/status',  
+  '/:reservaId/status',
+  requireApiKeyScope(
+    PERMISOS.RESERVAS_CONFIRM,
+    PERMISOS.RESERVAS_SHIP,
+    PERMISOS.RESERVAS_DELIVER,
+    PERMISOS.RESERVAS_CANCEL
+  ),
   runValidations(updateStatusReservaValidation),
+  idempotency,
   asyncHandler(updateReservaStatus)
 );
 
+/**
+ * GET /api/reservas/:reservaId/history
+ * Obtener historial de cambios de estado
+ * Usuario (solo su reserva) / reservas:read (cualquiera)
+ */
+router.get(
+  '/:reservaId/history',
+  requireApiKeyScope(PERMISOS.RESERVAS_READ),
+  runValidations(getReservaHistoryValidation),
+  asyncHandler(getReservaHistory)
+);
+
 /**
  * DELETE /api/reservas/:reservaId
  * Eliminar reserva
- * Usuario (solo su reserva) / Admin (cualquiera)
+ * Usuario (solo su reserva) / reservas:manage (cualquiera)
  */
 router.delete(
   '/:reservaId',
@@ -0,0 +1,59 @@
+/**
+ * Rutas de Roles y Permisos (roles:manage)
+ */
+
+import { Router } from 'express';
+import {
+  listRoles,
+  updatePermisosRol,
+  resetPermisosRol,
+} from '../controllers/rolController';
+import { authenticate } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/authorization';
+import { PERMISOS } from '../config/constants';
+import { runValidations } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+import {
+  updatePermisosRolValidation,
+  resetPermisosRolValidation,
+} from '../validators/rolValidators';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación y el permiso roles:manage
+router.use(authenticate);
+router.use(requirePermission(PERMISOS.ROLES_MANAGE));
+
+/**
+ * GET /api/roles
+ * Listar roles con sus permisos y el catálogo de permisos
+ * Permiso: roles:manage
+ */
+router.get(
+  '/',
+  asyncHandler(listRoles)
+);
+
+/**
+ * PUT /api/roles/:role/permisos
+ * Reemplazar los permisos de un rol
+ * Permiso: roles:manage
+ */
+router.put(
+  '/:role/permisos',
+  runValidations(updatePermisosRolValidation),
+  asyncHandler(updatePermisosRol)
+);
+
+/**
+ * DELETE /api/roles/:role/permisos
+ * Restablecer los permisos por defecto de un rol
+ * Permiso: roles:manage
+ */
+router.delete(
+  '/:role/permisos',
+  runValidations(resetPermisosRolValidation),
+  asyncHandler(resetPermisosRol)
+);
+
+export default router;
@@ -0,0 +1,58 @@
+/**
+ * Rutas de Solicitudes de Asignación
+ */
+
+import { Router } from 'express';
+import {
+  createSolicitud,
+  listSolicitudes,
+  withdrawSolicitud,
+} from '../controllers/solicitudAsignacionController';
+import { authenticate } from '../middlewares/auth';
+import { runValidations } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+import {
+  createSolicitudValidation,
+  listSolicitudesValidation,
+  withdrawSolicitudValidation,
+} from '../validators/solicitudAsignacionValidators';
+
+const router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticate);
+
+/**
+ * POST /api/solicitudes-asignacion
+ * Solicitar libras en un periodo con reparto al corte
+ * Usuario/Admin
+ */
+router.post(
+  '/',
+  runValidations(createSolicitudValidation),
+  asyncHandler(createSolicitud)
+);
+
+/**
+ * GET /api/solicitudes-asignacion
+ * Listar solicitudes con su resultado
+ * Usuario (solo sus solicitudes) / periodos:manage (todas)
+ */
+router.get(
+  '/',
+  runValidations(listSolicitudesValidation),
+  asyncHandler(listSolicitudes)
+);
+
+/**
+ * DELETE /api/solicitudes-asignacion/:solicitudId
+ * Retirar una solicitud antes del reparto
+ * Usuario (solo la suya, antes del corte) / periodos:manage (cualquiera)
+ */
+router.delete(
+  '/:solicitudId',
+  runValidations(withdrawSolicitudValidation),
+  asyncHandler(withdrawSolicitud)
+);
+
+export default router;
@@ -1,5 +1,5 @@
 /**
- * Rutas de Usuarios (Admin)
+ * Rutas de Usuarios (users:manage)
  */
 
 import { Router } from 'express';
@@ -10,9 +10,20 @@ import {
   updateUser,
   deleteUser,
   changeUserRole,
+  unlockUser,
+  impersonateUser,
+  anonymizeUser,
+  importUsers,
+  exportUsers,
+  getUserLimites,
+  updateUserLimites,
+  deleteUserLimites,
 } from '../controllers/userController';
 import { authenticate } from '../middlewares/auth';
-import { requireAdmin } from '../middlewares/authorization';
+import { idempotency } from '../middlewares/idempotency';
+import { csvUpload } from '../middlewares/uploadMiddleware';
+import { requirePermission } from '../middlewares/authorization';
+import { PERMISOS } from '../config/constants';
 import { runValidations } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
 import {
@@ -22,13 +33,19 @@ import {
   getUserByIdValidation,
   listUsersValidation,
   changeUserRoleValidation,
+  unlockUserValidation,
+  impersonateUserValidation,
+  anonymizeUserValidation,
+  importUsersValidation,
+  userLimitesValidation,
+  updateUserLimitesValidation,
 } from '../validators/userValidators';
 
 const router = Router();
 
-// Todas las rutas requieren autenticación y rol de admin
+// Todas las rutas requieren autenticación y el permiso users:manage
 router.use(authenticate);
-router.use(requireAdmin);
+router.use(requirePermission(PERMISOS.USERS_MANAGE));
 
 /**
  * POST /api/users
@@ -38,6 +55,7 @@ router.use(requireAdmin);
 router.post(
   '/',
   runValidations(createUserValidation),
+  idempotency,
   asyncHandler(createUser)
 );
 
@@ -52,6 +70,29 @@ router.get(
   asyncHandler(listUsers)
 );
 
+/**
+ * GET /api/users/export
+ * Exportar a CSV el listado de usuarios (mismos filtros que GET /api/users)
+ * Admin
+ */
+router.get(
+  '/export',
+  runValidations(listUsersValidation),
+  asyncHandler(exportUsers)
+);
+
+/**
+ * POST /api/users/import
+ * Importar usuarios desde un CSV (name, email, role, phone); dryRun solo valida
+ * Admin
+ */
+router.post(
+  '/import',
+  csvUpload.single('file'),
+  runValidations(importUsersValidation),
+  asyncHandler(importUsers)
+);
+
 /**
  * GET /api/users/:userId
  * Obtener usuario por ID
@@ -76,7 +117,7 @@ router.patch(
 
 /**
  * DELETE /api/users/:userId
- * Eliminar usuario
+ * Eliminar usuario (baja lógica; conserva sus reservas)
  * Admin
  */
 router.delete(
@@ -96,4 +137,71 @@ router.patch(
   asyncHandler(changeUserRole)
 );
 
+/**
+ * POST /api/users/:userId/unlock
+ * Desbloquear cuenta bloqueada por intentos fallidos de login
+ * Admin
+ */
+router.post(
+  '/:userId/unlock',
+  runValidations(unlockUserValidation),
+  asyncHandler(unlockUser)
+);
+
+/**
+ * POST /api/users/:userId/impersonate
+ * Obtener un token de corta duración para ver la API como el usuario (solo lectura)
+ * Permiso: users:impersonate
+ */
+router.post(
+  '/:userId/impersonate',
+  requirePermission(PERMISOS.USERS_IMPERSONATE),
+  runValidations(impersonateUserValidation),
+  asyncHandler(impersonateUser)
+);
+
+/**
+ * POST /api/users/:userId/anonymize
+ * Reemplazar nombre, email y avatar por un seudónimo (conserva reservas e histórico)
+ * Admin
+ */
+router.post(
+  '/:userId/anonymize',
+  runValidations(anonymizeUserValidation),
+  asyncHandler(anonymizeUser)
+);
+
+/**
+ * GET /api/users/:userId/limites
+ * Límites de reserva propios del usuario y los globales
+ * Admin
+ */
+router.get(
+  '/:userId/limites',
+  runValidations(userLimitesValidation),
+  asyncHandler(getUserLimites)
+);
+
+/**
+ * PUT /api/users/:userId/limites
+ * Configurar límites de reserva del usuario (null = periodo/global, 0 = sin límite)
+ * Admin
+ */
+router.put(
+  '/:userId/limites',
+  runValidations(updateUserLimitesValidation),
+  asyncHandler(updateUserLimites)
+);
+
+/**
+ * DELETE /api/users/:userId/limites
+ * Quitar los límites propios del usuario
+ * Admin
+ */
+router.delete(
+  '/:userId/limites',
+  runValidations(userLimitesValidation),
+  asyncHandler(deleteUserLimites)
+);
+
 export default router;
\ No newline at end of file
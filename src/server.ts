@@ -9,19 +9,31 @@ process.env.TZ = 'America/Mexico_City';
 
 import { createApp } from './app';
 import { CONFIG } from './config/constants';
+import { validarConfiguracionJwt } from './config/jwtKeys';
 import { connectPrisma, disconnectPrisma } from './config/prisma';
+import { iniciarVencimientoReservas } from './services/retencionService';
+import { validarConfiguracionCorreo } from './services/correoService';
 
 /**
  * Inicializar servidor
  */
 const startServer = async () => {
   try {
+    // Validar llaves y secretos de JWT (en producción no se aceptan los de ejemplo)
+    validarConfiguracionJwt();
+
+    // Validar el transporte de correo (en producción no se acepta el outbox)
+    validarConfiguracionCorreo();
+
     // Conectar a la base de datos
     await connectPrisma();
 
     // Crear aplicación
     const app = createApp();
 
+    // Programador de vencimiento de reservas PENDIENTE
+    const detenerVencimientos = iniciarVencimientoReservas();
+
     // Iniciar servidor
     const server = app.listen(CONFIG.PORT, () => {
       console.log('='.repeat(50));
@@ -40,6 +52,8 @@ const startServer = async () => {
     const gracefulShutdown = async (signal: string) => {
       console.log(`\n⚠️  Señal ${signal} recibida. Cerrando servidor...`);
 
+      detenerVencimientos();
+
       server.close(async () => {
         console.log('🔌 Servidor HTTP cerrado');
 
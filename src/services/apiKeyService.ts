@@ -0,0 +1,105 @@
+/**
+ * Servicio de API keys
+ * Claves para integraciones entre sistemas (escáneres de bodega, contabilidad):
+ * cada una actúa en nombre de su creador, limitada a sus scopes,
+ * y en la base de datos solo se guarda su hash
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../config/prisma';
+import { CONFIG } from '../config/constants';
+import { obtenerPermisosRol } from './permisoService';
+
+const PREFIJO_CLAVE = 'pqk_';
+
+/**
+ * Hash de una API key
+ */
+const hashApiKey = (clave: string): string => {
+  return crypto.createHash('sha256').update(clave).digest('hex');
+};
+
+/**
+ * Columnas públicas de una API key (nunca el hash)
+ */
+export const API_KEY_SELECT = {
+  id: true,
+  nombre: true,
+  prefijo: true,
+  scopes: true,
+  userId: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Crear una API key
+ * @returns Registro y clave en texto plano (solo se conoce al crearla)
+ */
+export const crearApiKey = async (
+  userId: number,
+  data: { nombre: string; scopes: string[]; expiresAt: Date | null }
+) => {
+  const clave = `${PREFIJO_CLAVE}${crypto.randomBytes(24).toString('hex')}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      nombre: data.nombre,
+      prefijo: clave.slice(0, 12),
+      keyHash: hashApiKey(clave),
+      scopes: [...new Set(data.scopes)],
+      userId,
+      expiresAt: data.expiresAt,
+    },
+    select: API_KEY_SELECT,
+  });
+
+  return { apiKey, clave };
+};
+
+/**
+ * Autenticar una solicitud con API key
+ * Los permisos efectivos son los scopes que el creador aún conserva
+ * @returns Usuario y key, o null si la clave es inválida, expiró o fue revocada
+ */
+export const autenticarApiKey = async (clave: string, ip: string | undefined) => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(clave) },
+    include: {
+      user: {
+        select: { id: true, email: true, name: true, role: true, isActive: true },
+      },
+    },
+  });
+
+  if (
+    !apiKey ||
+    apiKey.revokedAt ||
+    (apiKey.expiresAt && apiKey.expiresAt <= new Date()) ||
+    !apiKey.user.isActive
+  ) {
+    return null;
+  }
+
+  // Registrar el uso sin escribir en cada solicitud
+  const intervaloMs = CONFIG.API_KEY_USO_INTERVALO_MINUTOS * 60 * 1000;
+
+  if (!apiKey.lastUsedAt || apiKey.lastUsedAt.getTime() < Date.now() - intervaloMs) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ip ?? null },
+    });
+  }
+
+  const permisosCreador = await obtenerPermisosRol(apiKey.user.role);
+  const scopes = Array.isArray(apiKey.scopes) ? apiKey.scopes : [];
+
+  return {
+    user: apiKey.user,
+    apiKey: { id: apiKey.id, nombre: apiKey.nombre },
+    permisos: permisosCreador.filter((permiso) => scopes.includes(permiso)),
+  };
+};
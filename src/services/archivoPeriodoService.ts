@@ -0,0 +1,361 @@
+/**
+ * Servicio de archivo de periodos
+ * Mueve un periodo y sus reservas al histórico en una sola transacción
+ * y permite revertirlo durante un plazo de gracia
+ */
+
+import { Prisma, StatusPeriodo, StatusReserva } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { CONFIG, ERROR_MESSAGES, STATUS_PERIODO } from '../config/constants';
+import { createBadRequestError, createConflictError, createNotFoundError } from '../middlewares/errorHandler';
+import { TransactionClient, bloquearPeriodos } from './capacidadService';
+
+// El archivo copia todas las reservas y sus eventos: más margen que una reserva normal
+const OPCIONES_TRANSACCION_ARCHIVO = {
+  isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted,
+  maxWait: 5000,
+  timeout: 60000,
+};
+
+/**
+ * Periodo con todo lo necesario para archivarlo
+ */
+const cargarPeriodoParaArchivo = (tx: TransactionClient, periodoId: number) => {
+  return tx.periodoLibras.findUnique({
+    where: { id: periodoId },
+    include: {
+      reservas: {
+        include: {
+          user: true,
+          eventos: {
+            include: { actor: true, apiKey: true },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
+    },
+  });
+};
+
+type PeriodoParaArchivo = NonNullable<Awaited<ReturnType<typeof cargarPeriodoParaArchivo>>>;
+
+/**
+ * Contenido exacto que se escribirá en el histórico
+ */
+export interface ArchivoPeriodo {
+  historicoPeriodo: Prisma.HistoricoPeriodoCreateInput;
+  reservas: Prisma.HistoricoReservaCreateWithoutHistoricoPeriodoInput[];
+  eventos: Record<number, Prisma.HistoricoReservaEventoCreateWithoutHistoricoReservaInput[]>;
+  entradasListaEsperaAExpirar: number;
+}
+
+/**
+ * Verificar si un periodo se puede archivar
+ */
+const puedeArchivar = (status: StatusPeriodo): boolean => {
+  return status === STATUS_PERIODO.EN_TRANSITO || status === STATUS_PERIODO.CANCELADO;
+};
+
+/**
+ * Construir el contenido del histórico a partir del periodo
+ */
+const construirArchivo = (
+  periodo: PeriodoParaArchivo,
+  entradasListaEsperaAExpirar: number
+): ArchivoPeriodo => {
+  const reservasActivas = periodo.reservas.filter((r) => r.status !== 'CANCELADA');
+
+  const librasReservadas = reservasActivas.reduce((sum, reserva) => {
+    return sum + parseFloat(reserva.libras.toString());
+  }, 0);
+
+  const usuariosUnicos = new Set(reservasActivas.map((r) => r.userId)).size;
+
+  const eventos: ArchivoPeriodo['eventos'] = {};
+
+  for (const reserva of periodo.reservas) {
+    eventos[reserva.id] = reserva.eventos.map((evento) => ({
+      statusAnterior: evento.statusAnterior,
+      statusNuevo: evento.statusNuevo,
+      actorId: evento.actorId,
+      actorName: evento.actor?.name ?? null,
+      actorEmail: evento.actor?.email ?? null,
+      apiKeyId: evento.apiKeyId,
+      apiKeyNombre: evento.apiKey?.nombre ?? null,
+      motivo: evento.motivo,
+      fechaEvento: evento.createdAt,
+    }));
+  }
+
+  return {
+    historicoPeriodo: {
+      librasTotales: periodo.librasTotales,
+      librasReservadas,
+      librasDisponibles: periodo.librasTotales - librasReservadas,
+      fechaEnvio: periodo.fechaEnvio,
+      totalReservas: reservasActivas.length,
+      totalUsuarios: usuariosUnicos,
+      periodoOriginalId: periodo.id,
+      statusPeriodo: periodo.status,
+    },
+    reservas: periodo.reservas.map((reserva) => ({
+      userId: reserva.userId,
+      userName: reserva.user.name,
+      userEmail: reserva.user.email,
+      libras: reserva.libras,
+      fecha: reserva.fecha,
+      estado: reserva.estado,
+      observaciones: reserva.observaciones,
+      direccionEntrega: reserva.direccionEntrega ?? Prisma.DbNull,
+      status: reserva.status,
+      fechaConfirmacion: reserva.fechaConfirmacion,
+      fechaEnvio: reserva.fechaEnvio,
+      fechaEntrega: reserva.fechaEntrega,
+      periodoFechaEnvio: periodo.fechaEnvio,
+      periodoOriginalId: periodo.id,
+      reservaOriginalId: reserva.id,
+      reservaCreatedAt: reserva.createdAt,
+    })),
+    eventos,
+    entradasListaEsperaAExpirar,
+  };
+};
+
+/**
+ * Vista previa del archivo: lo que se movería al histórico sin escribir nada
+ */
+export const previsualizarArchivo = async (periodoId: number) => {
+  const periodo = await cargarPeriodoParaArchivo(prisma, periodoId);
+
+  if (!periodo) {
+    throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
+  }
+
+  const entradasListaEspera = await prisma.listaEspera.count({
+    where: { periodoId, status: 'EN_ESPERA' },
+  });
+
+  const archivo = construirArchivo(periodo, entradasListaEspera);
+  const archivable = puedeArchivar(periodo.status);
+
+  return {
+    periodoId: periodo.id,
+    status: periodo.status,
+    puedeArchivar: archivable,
+    motivo: archivable ? null : ERROR_MESSAGES.PERIODO_NO_ARCHIVABLE,
+    historicoPeriodo: archivo.historicoPeriodo,
+    reservas: archivo.reservas.map((reserva) => ({
+      ...reserva,
+      totalEventos: archivo.eventos[reserva.reservaOriginalId]?.length ?? 0,
+    })),
+    totalReservas: archivo.reservas.length,
+    entradasListaEsperaAExpirar: archivo.entradasListaEsperaAExpirar,
+    horasGraciaReapertura: CONFIG.REAPERTURA_GRACIA_HORAS,
+  };
+};
+
+/**
+ * Archivar un periodo de forma atómica:
+ * histórico del periodo + reservas + eventos, borrado de reservas,
+ * expiración de la lista de espera y cambio a ARCHIVADO
+ */
+export const archivarPeriodo = async (periodoId: number) => {
+  return prisma.$transaction(async (tx) => {
+    // Bloquear el periodo: nadie puede reservar ni archivarlo a la vez
+    await bloquearPeriodos(tx, [periodoId]);
+
+    const periodo = await cargarPeriodoParaArchivo(tx, periodoId);
+
+    if (!periodo) {
+      throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
+    }
+
+    // Solo se archiva un periodo ya enviado o cancelado
+    if (!puedeArchivar(periodo.status)) {
+      throw createBadRequestError(ERROR_MESSAGES.PERIODO_NO_ARCHIVABLE);
+    }
+
+    const archivo = construirArchivo(periodo, 0);
+
+    const historicoPeriodo = await tx.historicoPeriodo.create({
+      data: archivo.historicoPeriodo,
+    });
+
+    // Secuencial: dentro de una transacción interactiva las consultas no se paralelizan
+    for (const reserva of archivo.reservas) {
+      await tx.historicoReserva.create({
+        data: {
+          ...reserva,
+          historicoPeriodo: { connect: { id: historicoPeriodo.id } },
+          eventos: { create: archivo.eventos[reserva.reservaOriginalId] ?? [] },
+        },
+      });
+    }
+
+    // Eliminar reservas archivadas de la tabla reservas
+    await tx.reserva.deleteMany({
+      where: { periodoId },
+    });
+
+    // Las solicitudes que siguen en espera ya no podrán atenderse
+    await tx.listaEspera.updateMany({
+      where: { periodoId, status: 'EN_ESPERA' },
+      data: { status: 'EXPIRADA' },
+    });
+
+    await tx.periodoLibras.update({
+      where: { id: periodoId },
+      data: { status: STATUS_PERIODO.ARCHIVADO },
+    });
+
+    return historicoPeriodo;
+  }, OPCIONES_TRANSACCION_ARCHIVO);
+};
+
+/**
+ * Reabrir (desarchivar) un periodo dentro del plazo de gracia
+ * Restaura las reservas con su ID original y su historial de eventos;
+ * el periodo vuelve al estado que tenía al archivarse
+ */
+export const reabrirPeriodo = async (periodoId: number) => {
+  return prisma.$transaction(async (tx) => {
+    await bloquearPeriodos(tx, [periodoId]);
+
+    const periodo = await tx.periodoLibras.findUnique({
+      where: { id: periodoId },
+      select: { id: true, status: true },
+    });
+
+    if (!periodo) {
+      throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
+    }
+
+    if (periodo.status !== STATUS_PERIODO.ARCHIVADO) {
+      throw createBadRequestError(ERROR_MESSAGES.PERIODO_NO_ARCHIVADO);
+    }
+
+    // Último archivo de este periodo
+    const historicoPeriodo = await tx.historicoPeriodo.findFirst({
+      where: { periodoOriginalId: periodoId },
+      orderBy: { fechaArchivado: 'desc' },
+    });
+
+    if (!historicoPeriodo) {
+      throw createNotFoundError(ERROR_MESSAGES.PERIODO_ARCHIVO_NOT_FOUND);
+    }
+
+    const limite = new Date(
+      historicoPeriodo.fechaArchivado.getTime() + CONFIG.REAPERTURA_GRACIA_HORAS * 60 * 60 * 1000
+    );
+
+    if (new Date() > limite) {
+      throw createBadRequestError(ERROR_MESSAGES.PERIODO_REAPERTURA_VENCIDA);
+    }
+
+    const historicoReservas = await tx.historicoReserva.findMany({
+      where: { historicoPeriodoId: historicoPeriodo.id },
+      include: { eventos: { orderBy: { id: 'asc' } } },
+      orderBy: { reservaOriginalId: 'asc' },
+    });
+
+    // Las reservas pertenecen a usuarios: si alguno fue eliminado no se puede restaurar
+    const userIds = Array.from(new Set(historicoReservas.map((r) => r.userId)));
+    const usuarios = await tx.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true },
+    });
+    const usuariosExistentes = new Set(usuarios.map((u) => u.id));
+    const faltantes = userIds.filter((id) => !usuariosExistentes.has(id));
+
+    if (faltantes.length > 0) {
+      throw createConflictError(
+        `No se puede reabrir el periodo: usuarios eliminados (${faltantes.join(', ')})`
+      );
+    }
+
+    // Los actores eliminados quedan como eventos del sistema
+    const actorIds = Array.from(
+      new Set(
+        historicoReservas.flatMap((r) =>
+          r.eventos.map((e) => e.actorId).filter((id): id is number => id !== null)
+        )
+      )
+    );
+    const actores = await tx.user.findMany({
+      where: { id: { in: actorIds } },
+      select: { id: true },
+    });
+    const actoresExistentes = new Set(actores.map((a) => a.id));
+
+    // Igual con las API keys eliminadas
+    const apiKeyIds = Array.from(
+      new Set(
+        historicoReservas.flatMap((r) =>
+          r.eventos.map((e) => e.apiKeyId).filter((id): id is number => id !== null)
+        )
+      )
+    );
+    const apiKeys = await tx.apiKey.findMany({
+      where: { id: { in: apiKeyIds } },
+      select: { id: true },
+    });
+    const apiKeysExistentes = new Set(apiKeys.map((k) => k.id));
+
+    for (const historico of historicoReservas) {
+      await tx.reserva.create({
+        data: {
+          id: historico.reservaOriginalId,
+          libras: historico.libras,
+          fecha: historico.fecha,
+          estado: historico.estado,
+          observaciones: historico.observaciones,
+          direccionEntrega: historico.direccionEntrega ?? Prisma.DbNull,
+          status: historico.status as StatusReserva,
+          fechaConfirmacion: historico.fechaConfirmacion,
+          fechaEnvio: historico.fechaEnvio,
+          fechaEntrega: historico.fechaEntrega,
+          userId: historico.userId,
+          periodoId,
+          ...(historico.reservaCreatedAt ? { createdAt: historico.reservaCreatedAt } : {}),
+          eventos: {
+            create: historico.eventos.map((evento) => ({
+              statusAnterior: evento.statusAnterior as StatusReserva | null,
+              statusNuevo: evento.statusNuevo as StatusReserva,
+              actorId:
+                evento.actorId !== null && actoresExistentes.has(evento.actorId)
+                  ? evento.actorId
+                  : null,
+              apiKeyId:
+                evento.apiKeyId !== null && apiKeysExistentes.has(evento.apiKeyId)
+                  ? evento.apiKeyId
+                  : null,
+              motivo: evento.motivo,
+              createdAt: evento.fechaEvento,
+            })),
+          },
+        },
+      });
+    }
+
+    // Quitar el archivo revertido (reservas y eventos se borran en cascada)
+    await tx.historicoPeriodo.delete({
+      where: { id: historicoPeriodo.id },
+    });
+
+    const statusRestaurado =
+      historicoPeriodo.statusPeriodo === STATUS_PERIODO.CANCELADO
+        ? STATUS_PERIODO.CANCELADO
+        : STATUS_PERIODO.EN_TRANSITO;
+
+    const actualizado = await tx.periodoLibras.update({
+      where: { id: periodoId },
+      data: { status: statusRestaurado },
+    });
+
+    return {
+      periodo: actualizado,
+      reservasRestauradas: historicoReservas.length,
+    };
+  }, OPCIONES_TRANSACCION_ARCHIVO);
+};
@@ -0,0 +1,403 @@
+/**
+ * Servicio de asignación por solicitudes
+ * En los periodos con reparto los usuarios envían solicitudes durante la
+ * ventana; al corte las libras disponibles se reparten entre todas a la vez
+ * (proporcional o max-min) en lugar de atender por orden de llegada
+ */
+
+import { ModoAsignacion, Prisma, StatusPeriodo } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { ERROR_MESSAGES, MODOS_ASIGNACION } from '../config/constants';
+import { createBadRequestError, createNotFoundError } from '../middlewares/errorHandler';
+import { parseDateWithoutTimezone } from '../utils/validators';
+import {
+  TransactionClient,
+  bloquearPeriodos,
+  calcularLibrasReservadas,
+  ejecutarConCapacidad,
+} from './capacidadService';
+import { registrarEventoReserva } from './reservaEventoService';
+import { calcularCupos } from './cupoReservaService';
+
+// Crea una reserva y su evento por solicitud: más margen que una reserva normal
+const TIMEOUT_TRANSACCION_ASIGNACION = 60000;
+
+// El reparto se ejecuta tras el corte, aunque el periodo ya esté CERRADO
+const STATUS_PERIODO_ASIGNABLES: StatusPeriodo[] = ['ABIERTO', 'CERRADO'];
+
+/**
+ * Datos del periodo que determinan su modo de asignación
+ */
+export interface ModoPeriodo {
+  modoAsignacion: ModoAsignacion;
+  fechaAsignacion: Date | null;
+}
+
+/**
+ * Demanda de una solicitud para el reparto (en centavos de libra)
+ */
+interface Demanda {
+  id: number;
+  centavos: number;
+}
+
+/**
+ * Resultado del reparto para una solicitud
+ */
+export interface AsignacionSolicitud {
+  solicitudId: number;
+  userId: number;
+  userName: string;
+  librasSolicitadas: number;
+  librasTope: number; // Lo solicitado, recortado al cupo del usuario en el periodo
+  librasAsignadas: number;
+  librasNoAtendidas: number;
+}
+
+/**
+ * Resultado del reparto de un periodo
+ */
+export interface AsignacionPeriodo {
+  periodoId: number;
+  modoAsignacion: ModoAsignacion;
+  fechaCorte: Date | null;
+  librasDisponibles: number;
+  librasSolicitadas: number;
+  librasAsignadas: number;
+  demandaNoAtendida: number;
+  solicitudes: AsignacionSolicitud[];
+}
+
+/**
+ * Verificar si un periodo reparte sus libras por solicitudes
+ */
+export const usaSolicitudes = (periodo: { modoAsignacion: ModoAsignacion }): boolean => {
+  return periodo.modoAsignacion !== MODOS_ASIGNACION.ORDEN_LLEGADA;
+};
+
+/**
+ * Filtro de Prisma para periodos que aceptan reservas directas
+ * (por orden de llegada, o con reparto ya ejecutado)
+ */
+export const filtroReservaDirecta: Prisma.PeriodoLibrasWhereInput = {
+  OR: [
+    { modoAsignacion: MODOS_ASIGNACION.ORDEN_LLEGADA },
+    { fechaAsignacion: { not: null } },
+  ],
+};
+
+/**
+ * Validar que un periodo acepte reservas directas
+ * Antes del reparto nadie reserva directamente: se adelantaría a las solicitudes
+ */
+export const validarReservaDirecta = (periodo: ModoPeriodo): void => {
+  if (usaSolicitudes(periodo) && !periodo.fechaAsignacion) {
+    throw createBadRequestError(ERROR_MESSAGES.PERIODO_CON_SOLICITUDES);
+  }
+};
+
+// ============================================
+// CRITERIOS DE REPARTO
+// ============================================
+
+/**
+ * Reparto proporcional: cada solicitud recibe capacidad × (demanda / demanda total)
+ * Los centavos que sobran al redondear van a los residuos mayores
+ * (en empate, a la solicitud más antigua)
+ */
+export const repartirProporcional = (capacidad: number, demandas: Demanda[]): Map<number, number> => {
+  const total = demandas.reduce((sum, d) => sum + d.centavos, 0);
+
+  if (total <= capacidad) {
+    return new Map(demandas.map((d) => [d.id, d.centavos]));
+  }
+
+  const partes = demandas.map((d) => {
+    const exacto = (capacidad * d.centavos) / total;
+    return { id: d.id, centavos: Math.floor(exacto), residuo: exacto - Math.floor(exacto) };
+  });
+
+  let sobrante = capacidad - partes.reduce((sum, p) => sum + p.centavos, 0);
+
+  [...partes]
+    .sort((a, b) => b.residuo - a.residuo || a.id - b.id)
+    .forEach((parte) => {
+      if (sobrante > 0) {
+        parte.centavos++;
+        sobrante--;
+      }
+    });
+
+  return new Map(partes.map((p) => [p.id, p.centavos]));
+};
+
+/**
+ * Reparto max-min (llenado equitativo): las solicitudes menores que la parte
+ * igualitaria se atienden completas y el resto se divide en partes iguales
+ * entre las demás. Los centavos indivisibles van a las solicitudes más antiguas
+ */
+export const repartirMaxMin = (capacidad: number, demandas: Demanda[]): Map<number, number> => {
+  const asignacion = new Map<number, number>();
+  const ordenadas = [...demandas].sort((a, b) => a.centavos - b.centavos || a.id - b.id);
+  let restante = capacidad;
+
+  for (const [index, demanda] of ordenadas.entries()) {
+    const pendientes = ordenadas.length - index;
+    const parteIgual = Math.floor(restante / pendientes);
+
+    if (demanda.centavos <= parteIgual) {
+      asignacion.set(demanda.id, demanda.centavos);
+      restante -= demanda.centavos;
+      continue;
+    }
+
+    // Ninguna de las restantes cabe completa: todas reciben la parte igual
+    const resto = ordenadas.slice(index).sort((a, b) => a.id - b.id);
+    let sobrante = restante - parteIgual * pendientes;
+
+    for (const pendiente of resto) {
+      asignacion.set(pendiente.id, parteIgual + (sobrante > 0 ? 1 : 0));
+      sobrante--;
+    }
+
+    break;
+  }
+
+  return asignacion;
+};
+
+// ============================================
+// CÁLCULO Y EJECUCIÓN
+// ============================================
+
+const aCentavos = (libras: number): number => Math.round(libras * 100);
+const aLibras = (centavos: number): number => centavos / 100;
+
+/**
+ * Cargar un periodo con reparto por solicitudes
+ */
+const cargarPeriodoConSolicitudes = async (tx: TransactionClient, periodoId: number) => {
+  const periodo = await tx.periodoLibras.findUnique({
+    where: { id: periodoId },
+  });
+
+  if (!periodo) {
+    throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
+  }
+
+  if (!usaSolicitudes(periodo)) {
+    throw createBadRequestError(ERROR_MESSAGES.PERIODO_SIN_SOLICITUDES);
+  }
+
+  return periodo;
+};
+
+/**
+ * Motivo por el que el reparto aún no puede ejecutarse (null = puede)
+ */
+const motivoNoEjecutable = (
+  periodo: ModoPeriodo & { status: StatusPeriodo; fechaCorte: Date | null },
+  ahora: Date = new Date()
+): string | null => {
+  if (periodo.fechaAsignacion) {
+    return ERROR_MESSAGES.ASIGNACION_YA_EJECUTADA;
+  }
+
+  if (!STATUS_PERIODO_ASIGNABLES.includes(periodo.status)) {
+    return ERROR_MESSAGES.PERIODO_NO_ABIERTO;
+  }
+
+  if (!periodo.fechaCorte || periodo.fechaCorte > ahora) {
+    return ERROR_MESSAGES.ASIGNACION_ANTES_DEL_CORTE;
+  }
+
+  return null;
+};
+
+/**
+ * Calcular el reparto de un periodo sin escribir nada
+ * La demanda de cada solicitud se recorta al cupo vigente del usuario
+ * (límites del periodo y del usuario); las que no alcanzan la reserva
+ * mínima o no tienen lugar para otra reserva abierta quedan sin asignar
+ */
+const calcularAsignacion = async (
+  tx: TransactionClient,
+  periodo: Awaited<ReturnType<typeof cargarPeriodoConSolicitudes>>
+): Promise<AsignacionPeriodo> => {
+  const solicitudes = await tx.solicitudAsignacion.findMany({
+    where: { periodoId: periodo.id, status: 'PENDIENTE' },
+    include: { user: { select: { name: true } } },
+    orderBy: { id: 'asc' },
+  });
+
+  const librasDisponibles = Math.max(
+    0,
+    periodo.librasTotales - (await calcularLibrasReservadas(tx, periodo.id))
+  );
+
+  const topes = new Map<number, number>();
+  const minimos = new Map<number, number>();
+
+  for (const solicitud of solicitudes) {
+    const libras = parseFloat(solicitud.libras.toString());
+    const cupo = (await calcularCupos(tx, solicitud.userId, [periodo])).get(periodo.id)!;
+    const abierta = cupo.maxReservasAbiertas === null || cupo.reservasAbiertas < cupo.maxReservasAbiertas;
+    const tope = cupo.librasDisponibles === null ? libras : Math.min(libras, cupo.librasDisponibles);
+
+    // Sin lugar para otra reserva abierta, o con un tope menor a la reserva mínima,
+    // la solicitud no puede recibir nada
+    const minimo = cupo.minLibrasReserva ?? 0;
+    topes.set(solicitud.id, abierta && tope >= minimo ? tope : 0);
+    minimos.set(solicitud.id, aCentavos(minimo));
+  }
+
+  const repartir = periodo.modoAsignacion === MODOS_ASIGNACION.MAX_MIN ? repartirMaxMin : repartirProporcional;
+  const excluidas = new Set<number>();
+  let reparto: Map<number, number>;
+
+  // Una parte menor a la reserva mínima no se puede crear: se descarta la menor
+  // de ellas y se reparte de nuevo, hasta que todas las partes sean válidas
+  for (;;) {
+    const demandas = solicitudes
+      .filter((s) => !excluidas.has(s.id))
+      .map((s) => ({ id: s.id, centavos: aCentavos(topes.get(s.id)!) }));
+    reparto = repartir(aCentavos(librasDisponibles), demandas);
+
+    const bajoMinimo = demandas
+      .map((d) => ({ id: d.id, centavos: reparto.get(d.id) ?? 0 }))
+      .filter((d) => d.centavos > 0 && d.centavos < minimos.get(d.id)!)
+      .sort((a, b) => a.centavos - b.centavos || b.id - a.id);
+
+    if (bajoMinimo.length === 0) break;
+    excluidas.add(bajoMinimo[0]!.id);
+  }
+
+  const items = solicitudes.map((solicitud) => {
+    const librasSolicitadas = parseFloat(solicitud.libras.toString());
+    const librasAsignadas = aLibras(reparto.get(solicitud.id) ?? 0);
+
+    return {
+      solicitudId: solicitud.id,
+      userId: solicitud.userId,
+      userName: solicitud.user.name,
+      librasSolicitadas,
+      librasTope: topes.get(solicitud.id)!,
+      librasAsignadas,
+      librasNoAtendidas: aLibras(aCentavos(librasSolicitadas) - aCentavos(librasAsignadas)),
+    };
+  });
+
+  const librasSolicitadas = aLibras(items.reduce((sum, i) => sum + aCentavos(i.librasSolicitadas), 0));
+  const librasAsignadas = aLibras(items.reduce((sum, i) => sum + aCentavos(i.librasAsignadas), 0));
+
+  return {
+    periodoId: periodo.id,
+    modoAsignacion: periodo.modoAsignacion,
+    fechaCorte: periodo.fechaCorte,
+    librasDisponibles,
+    librasSolicitadas,
+    librasAsignadas,
+    demandaNoAtendida: aLibras(aCentavos(librasSolicitadas) - aCentavos(librasAsignadas)),
+    solicitudes: items,
+  };
+};
+
+/**
+ * Vista previa del reparto: el mismo cálculo que la ejecución, sin escribir nada
+ * Puede consultarse antes del corte (con las solicitudes recibidas hasta ahora)
+ */
+export const previsualizarAsignacion = async (periodoId: number) => {
+  const periodo = await cargarPeriodoConSolicitudes(prisma, periodoId);
+  const motivo = motivoNoEjecutable(periodo);
+
+  return {
+    ...(await calcularAsignacion(prisma, periodo)),
+    puedeEjecutar: motivo === null,
+    motivo,
+  };
+};
+
+/**
+ * Ejecutar el reparto de un periodo
+ * Crea una reserva PENDIENTE por cada solicitud que recibió libras y marca
+ * el periodo como repartido (desde entonces acepta reservas directas)
+ */
+export const ejecutarAsignacion = async (
+  periodoId: number,
+  actorId: number,
+  apiKeyId?: number | null
+): Promise<AsignacionPeriodo> => {
+  const asignacion = await ejecutarConCapacidad(async (tx) => {
+    await bloquearPeriodos(tx, [periodoId]);
+
+    const periodo = await cargarPeriodoConSolicitudes(tx, periodoId);
+    const motivo = motivoNoEjecutable(periodo);
+
+    if (motivo) {
+      throw createBadRequestError(motivo);
+    }
+
+    const asignacion = await calcularAsignacion(tx, periodo);
+    const fechaEnvio = parseDateWithoutTimezone(periodo.fechaEnvio.toISOString().split('T')[0]!);
+
+    for (const item of asignacion.solicitudes) {
+      if (item.librasAsignadas <= 0) {
+        await tx.solicitudAsignacion.update({
+          where: { id: item.solicitudId },
+          data: { status: 'SIN_ASIGNAR', librasAsignadas: 0 },
+        });
+        continue;
+      }
+
+      const solicitud = await tx.solicitudAsignacion.findUniqueOrThrow({
+        where: { id: item.solicitudId },
+      });
+
+      const reserva = await tx.reserva.create({
+        data: {
+          libras: item.librasAsignadas,
+          fecha: fechaEnvio,
+          estado: solicitud.estado,
+          direccionEntrega: solicitud.direccionEntrega ?? Prisma.DbNull,
+          observaciones: solicitud.observaciones,
+          userId: solicitud.userId,
+          periodoId,
+        },
+      });
+
+      await registrarEventoReserva(tx, {
+        reservaId: reserva.id,
+        statusAnterior: null,
+        statusNuevo: reserva.status,
+        actorId,
+        apiKeyId,
+        motivo:
+          `Asignada por reparto ${periodo.modoAsignacion} (solicitud #${solicitud.id}: ` +
+          `${item.librasAsignadas} de ${item.librasSolicitadas} lbs)`,
+      });
+
+      await tx.solicitudAsignacion.update({
+        where: { id: solicitud.id },
+        data: {
+          status: 'ASIGNADA',
+          librasAsignadas: item.librasAsignadas,
+          reservaId: reserva.id,
+        },
+      });
+    }
+
+    await tx.periodoLibras.update({
+      where: { id: periodoId },
+      data: { fechaAsignacion: new Date() },
+    });
+
+    return asignacion;
+  }, TIMEOUT_TRANSACCION_ASIGNACION);
+
+  console.log(
+    `⚖️  Reparto ${asignacion.modoAsignacion} del periodo ${periodoId}: ` +
+    `${asignacion.librasAsignadas} de ${asignacion.librasSolicitadas} lbs asignadas`
+  );
+
+  return asignacion;
+};
@@ -0,0 +1,147 @@
+/**
+ * Servicio de baja y anonimización de usuarios
+ * Las reservas y el histórico se conservan para contabilidad: la baja es
+ * lógica y la anonimización reemplaza los datos personales por un seudónimo
+ */
+
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { hashPassword } from '../utils/validators';
+import { claveCuenta } from './bloqueoLoginService';
+
+/**
+ * Seudónimo que reemplaza el nombre y el email de un usuario anonimizado
+ * El dominio .invalid nunca recibe correo
+ */
+export const seudonimoUsuario = (userId: number) => ({
+  name: `Usuario anónimo #${userId}`,
+  email: `anonimo-${userId}@anonimizado.invalid`,
+});
+
+/**
+ * Cortar el acceso de un usuario dado de baja
+ * Sus reservas quedan intactas: la capacidad no se libera en silencio
+ */
+const revocarAcceso = async (tx: Prisma.TransactionClient, userId: number): Promise<void> => {
+  await tx.session.deleteMany({ where: { userId } });
+  await tx.tokenUsuario.deleteMany({ where: { userId, usedAt: null } });
+
+  await tx.apiKey.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  // Un usuario dado de baja no debe ser promovido desde la lista de espera
+  await tx.listaEspera.updateMany({
+    where: { userId, status: 'EN_ESPERA' },
+    data: { status: 'RETIRADA' },
+  });
+
+  // Ni recibir libras en un reparto
+  await tx.solicitudAsignacion.updateMany({
+    where: { userId, status: 'PENDIENTE' },
+    data: { status: 'RETIRADA' },
+  });
+};
+
+/**
+ * Dar de baja a un usuario (baja lógica)
+ * Bloquea el login y lo oculta del listado de usuarios
+ */
+export const eliminarUsuario = async (userId: number): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: { deletedAt: new Date(), isActive: false },
+    });
+
+    await revocarAcceso(tx, userId);
+  });
+};
+
+/**
+ * Anonimizar a un usuario
+ * Reemplaza nombre, email y avatar por un seudónimo (también en el histórico),
+ * borra sus datos de contacto y direcciones y lo da de baja si aún no lo estaba
+ */
+export const anonimizarUsuario = async (user: {
+  id: number;
+  email: string;
+  avatar: string | null;
+  deletedAt: Date | null;
+}): Promise<void> => {
+  const seudonimo = seudonimoUsuario(user.id);
+
+  // Contraseña aleatoria que nadie conoce
+  const password = await hashPassword(crypto.randomBytes(32).toString('hex'));
+
+  await prisma.$transaction(async (tx) => {
+    const ahora = new Date();
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        ...seudonimo,
+        password,
+        avatar: null,
+        phone: null,
+        defaultEstado: null,
+        isActive: false,
+        emailVerifiedAt: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpUltimoPaso: null,
+        deletedAt: user.deletedAt ?? ahora,
+        anonymizedAt: ahora,
+      },
+    });
+
+    await revocarAcceso(tx, user.id);
+    await tx.tokenUsuario.deleteMany({ where: { userId: user.id } });
+    await tx.codigoRecuperacion.deleteMany({ where: { userId: user.id } });
+    await tx.intentoLogin.deleteMany({ where: { clave: claveCuenta(user.email) } });
+    await tx.direccion.deleteMany({ where: { userId: user.id } });
+
+    // La dirección de entrega también es un dato personal
+    await tx.reserva.updateMany({
+      where: { userId: user.id },
+      data: { direccionEntrega: Prisma.DbNull },
+    });
+
+    await tx.solicitudAsignacion.updateMany({
+      where: { userId: user.id },
+      data: { direccionEntrega: Prisma.DbNull },
+    });
+
+    await tx.invitacion.updateMany({
+      where: { OR: [{ userId: user.id }, { email: user.email }] },
+      data: { email: seudonimo.email },
+    });
+
+    // Datos del usuario copiados al histórico al cerrar periodos
+    await tx.historicoReserva.updateMany({
+      where: { userId: user.id },
+      data: {
+        userName: seudonimo.name,
+        userEmail: seudonimo.email,
+        direccionEntrega: Prisma.DbNull,
+      },
+    });
+
+    await tx.historicoReservaEvento.updateMany({
+      where: { actorId: user.id },
+      data: { actorName: seudonimo.name, actorEmail: seudonimo.email },
+    });
+  });
+
+  // El archivo se elimina después de confirmar la transacción
+  if (user.avatar) {
+    const avatarPath = path.join(process.cwd(), user.avatar);
+    if (fs.existsSync(avatarPath)) {
+      fs.unlinkSync(avatarPath);
+    }
+  }
+};
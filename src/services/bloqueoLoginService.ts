@@ -0,0 +1,167 @@
+/**
+ * Servicio de protección del login
+ * Cuenta los fallos por cuenta (email) y por IP: entre fallos aplica un
+ * backoff exponencial y, al llegar al máximo, bloquea temporalmente.
+ * La IP viene de req.ip: detrás de un proxy requiere TRUST_PROXY
+ */
+
+import { IntentoLogin, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { CONFIG, ERROR_MESSAGES } from '../config/constants';
+import { createTooManyRequestsError } from '../middlewares/errorHandler';
+
+/**
+ * Claves de seguimiento de un intento de login
+ */
+export interface ClavesLogin {
+  cuenta: string;
+  ip: string | null;
+}
+
+/**
+ * Clave de seguimiento de una cuenta
+ */
+export const claveCuenta = (email: string): string => `cuenta:${email}`;
+
+/**
+ * Construir las claves de un intento
+ */
+export const clavesLogin = (email: string, ip: string | undefined): ClavesLogin => ({
+  cuenta: claveCuenta(email),
+  ip: ip ? `ip:${ip}` : null,
+});
+
+const listarClaves = (claves: ClavesLogin): string[] => {
+  return claves.ip ? [claves.cuenta, claves.ip] : [claves.cuenta];
+};
+
+/**
+ * Segundos de espera tras N fallos consecutivos (sin llegar al bloqueo)
+ */
+const calcularBackoff = (intentosFallidos: number): number => {
+  if (intentosFallidos <= 0) {
+    return 0;
+  }
+
+  return Math.min(
+    CONFIG.LOGIN_BACKOFF_BASE_SEGUNDOS * 2 ** (intentosFallidos - 1),
+    CONFIG.LOGIN_BACKOFF_MAX_SEGUNDOS
+  );
+};
+
+/**
+ * Bloquear (FOR UPDATE) los registros de las claves, creándolos si no existen
+ * Se bloquean en orden para evitar deadlocks entre intentos simultáneos
+ */
+const bloquearRegistros = async (tx: Prisma.TransactionClient, claves: string[]) => {
+  const ordenadas = [...claves].sort();
+
+  for (const clave of ordenadas) {
+    await tx.$executeRaw`
+      INSERT IGNORE INTO intentos_login (clave, intentosFallidos, ultimoFallo, updatedAt)
+      VALUES (${clave}, 0, ${new Date(0)}, ${new Date()})
+    `;
+  }
+
+  return tx.$queryRaw<IntentoLogin[]>`
+    SELECT * FROM intentos_login
+    WHERE clave IN (${Prisma.join(ordenadas)})
+    ORDER BY clave
+    FOR UPDATE
+  `;
+};
+
+/**
+ * Registrar un intento de login antes de comparar la contraseña
+ * Bajo bloqueo de fila: si la cuenta o la IP están bloqueadas o en backoff
+ * lanza 429 con Retry-After; si no, cuenta el intento como fallido (hasta que
+ * confirmarLoginExitoso lo descuente). Así los intentos simultáneos no pueden
+ * pasar todos la verificación antes de que se cuente el primer fallo
+ */
+export const registrarIntentoLogin = async (claves: ClavesLogin): Promise<void> => {
+  const esperaMs = await prisma.$transaction(async (tx) => {
+    const registros = await bloquearRegistros(tx, listarClaves(claves));
+    const ahora = new Date();
+    const inicioVentana = ahora.getTime() - CONFIG.LOGIN_VENTANA_MINUTOS * 60 * 1000;
+    let espera = 0;
+
+    for (const registro of registros) {
+      const hasta = registro.bloqueadoHasta
+        ? registro.bloqueadoHasta.getTime()
+        : registro.ultimoFallo.getTime() + calcularBackoff(registro.intentosFallidos) * 1000;
+
+      espera = Math.max(espera, hasta - ahora.getTime());
+    }
+
+    if (espera > 0) {
+      return espera;
+    }
+
+    for (const registro of registros) {
+      const maximo = registro.clave === claves.cuenta
+        ? CONFIG.LOGIN_MAX_INTENTOS_CUENTA
+        : CONFIG.LOGIN_MAX_INTENTOS_IP;
+
+      // Fallos fuera de la ventana o tras un bloqueo ya cumplido no cuentan
+      const reiniciar =
+        registro.ultimoFallo.getTime() < inicioVentana ||
+        (registro.bloqueadoHasta !== null && registro.bloqueadoHasta <= ahora);
+
+      const intentosFallidos = reiniciar ? 1 : registro.intentosFallidos + 1;
+      const bloqueadoHasta = intentosFallidos >= maximo
+        ? new Date(ahora.getTime() + CONFIG.LOGIN_BLOQUEO_MINUTOS * 60 * 1000)
+        : null;
+
+      await tx.intentoLogin.update({
+        where: { clave: registro.clave },
+        data: { intentosFallidos, ultimoFallo: ahora, bloqueadoHasta },
+      });
+    }
+
+    return 0;
+  });
+
+  if (esperaMs > 0) {
+    throw createTooManyRequestsError(ERROR_MESSAGES.LOGIN_BLOQUEADO, Math.ceil(esperaMs / 1000));
+  }
+};
+
+/**
+ * Confirmar un login exitoso
+ * Limpia los fallos de la cuenta y descuenta de la IP el intento registrado;
+ * el resto de fallos de la IP se conserva: un login válido no debe borrar el
+ * rastro de un ataque
+ */
+export const confirmarLoginExitoso = async (claves: ClavesLogin): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    await tx.intentoLogin.deleteMany({ where: { clave: claves.cuenta } });
+
+    if (!claves.ip) {
+      return;
+    }
+
+    const [registro] = await bloquearRegistros(tx, [claves.ip]);
+
+    if (!registro) {
+      return;
+    }
+
+    const intentosFallidos = Math.max(0, registro.intentosFallidos - 1);
+
+    await tx.intentoLogin.update({
+      where: { clave: claves.ip },
+      data: {
+        intentosFallidos,
+        // El intento exitoso no debe dejar la IP bloqueada
+        ...(intentosFallidos < CONFIG.LOGIN_MAX_INTENTOS_IP ? { bloqueadoHasta: null } : {}),
+      },
+    });
+  });
+};
+
+/**
+ * Desbloquear una cuenta (admin)
+ */
+export const desbloquearCuenta = async (email: string): Promise<void> => {
+  await prisma.intentoLogin.deleteMany({ where: { clave: claveCuenta(email) } });
+};
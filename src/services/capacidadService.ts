@@ -0,0 +1,71 @@
+/**
+ * Servicio de capacidad de periodos
+ * Bloqueo de filas y cálculo de libras reservadas dentro de transacciones
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+
+/**
+ * Cliente de Prisma dentro de una transacción interactiva
+ */
+export type TransactionClient = Prisma.TransactionClient;
+
+/**
+ * Ejecutar una operación que modifica la capacidad de uno o más periodos
+ * READ COMMITTED garantiza que, tras obtener el bloqueo, las lecturas
+ * vean las reservas confirmadas por la transacción que lo tenía antes
+ * @param timeout Duración máxima en ms, para operaciones que crean muchas filas
+ */
+export const ejecutarConCapacidad = <T>(
+  fn: (tx: TransactionClient) => Promise<T>,
+  timeout = 15000
+): Promise<T> => {
+  return prisma.$transaction(fn, {
+    isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted,
+    maxWait: 5000,
+    timeout,
+  });
+};
+
+/**
+ * Bloquear filas de periodos (SELECT ... FOR UPDATE)
+ * Se bloquean en orden de ID para evitar deadlocks entre transacciones
+ */
+export const bloquearPeriodos = async (
+  tx: TransactionClient,
+  periodoIds: number[]
+): Promise<void> => {
+  const ids = Array.from(new Set(periodoIds)).sort((a, b) => a - b);
+
+  if (ids.length === 0) {
+    return;
+  }
+
+  await tx.$queryRaw`
+    SELECT id FROM periodos_libras
+    WHERE id IN (${Prisma.join(ids)})
+    ORDER BY id
+    FOR UPDATE
+  `;
+};
+
+/**
+ * Sumar libras reservadas (no canceladas) de un periodo
+ */
+export const calcularLibrasReservadas = async (
+  tx: TransactionClient,
+  periodoId: number,
+  excludeReservaId?: number
+): Promise<number> => {
+  const resultado = await tx.reserva.aggregate({
+    where: {
+      periodoId,
+      id: excludeReservaId ? { not: excludeReservaId } : undefined,
+      status: { notIn: ['CANCELADA'] },
+    },
+    _sum: { libras: true },
+  });
+
+  return resultado._sum.libras ? parseFloat(resultado._sum.libras.toString()) : 0;
+};
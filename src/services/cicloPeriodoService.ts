@@ -0,0 +1,212 @@
+/**
+ * Servicio del ciclo de vida de periodos
+ * ABIERTO → CERRADO → EN_TRANSITO → ARCHIVADO, con cancelación antes del envío.
+ * Cada transición aplica en cascada los cambios de las reservas del periodo
+ */
+
+import { StatusPeriodo, StatusReserva } from '@prisma/client';
+import { ERROR_MESSAGES, STATUS_PERIODO } from '../config/constants';
+import { createBadRequestError, createNotFoundError } from '../middlewares/errorHandler';
+import { parseDateWithoutTimezone, getTodayDateString } from '../utils/validators';
+import { TransactionClient, ejecutarConCapacidad, bloquearPeriodos } from './capacidadService';
+import { registrarEventoReserva } from './reservaEventoService';
+
+/**
+ * Periodos que siguen en operación (no archivados ni cancelados)
+ */
+export const STATUS_PERIODO_VIGENTES: StatusPeriodo[] = ['ABIERTO', 'CERRADO', 'EN_TRANSITO'];
+
+/**
+ * Periodos cuya capacidad, fechas y límites aún se pueden editar
+ * (ya enviados, archivados o cancelados quedan fijos)
+ */
+export const STATUS_PERIODO_EDITABLES: StatusPeriodo[] = ['ABIERTO', 'CERRADO'];
+
+/**
+ * Transiciones válidas del ciclo de vida
+ * ARCHIVADO solo se alcanza al cerrar y archivar (POST /close)
+ */
+const TRANSICIONES_PERIODO: Record<StatusPeriodo, StatusPeriodo[]> = {
+  ABIERTO: ['CERRADO', 'CANCELADO'],
+  CERRADO: ['EN_TRANSITO', 'CANCELADO'],
+  EN_TRANSITO: ['ARCHIVADO'],
+  CANCELADO: ['ARCHIVADO'],
+  ARCHIVADO: [],
+};
+
+/**
+ * Cambios en cascada de las reservas al entrar a cada estado
+ */
+const CASCADA_RESERVAS: Partial<Record<StatusPeriodo, Partial<Record<StatusReserva, StatusReserva>>>> = {
+  EN_TRANSITO: {
+    CONFIRMADA: 'ENVIADA',
+    PENDIENTE: 'CANCELADA', // Sin confirmar no viajan en el envío
+  },
+  CANCELADO: {
+    PENDIENTE: 'CANCELADA',
+    CONFIRMADA: 'CANCELADA',
+  },
+};
+
+/**
+ * Resultado de un cambio de estado
+ */
+export interface CambioStatusPeriodo {
+  periodoId: number;
+  statusAnterior: StatusPeriodo;
+  statusNuevo: StatusPeriodo;
+  reservasActualizadas: number;
+  entradasExpiradas: number;
+  solicitudesExpiradas: number;
+}
+
+/**
+ * Verificar si una transición es válida
+ */
+export const puedeTransicionarPeriodo = (
+  actual: StatusPeriodo,
+  nuevo: StatusPeriodo
+): { allowed: boolean; reason?: string } => {
+  if (actual === nuevo) {
+    return { allowed: false, reason: 'El periodo ya tiene este estado' };
+  }
+
+  if (TRANSICIONES_PERIODO[actual].includes(nuevo)) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    reason: `No se puede cambiar el periodo de ${actual} a ${nuevo}`,
+  };
+};
+
+/**
+ * Verificar (bajo bloqueo) que el periodo acepte cambios de capacidad
+ */
+export const validarPeriodoAbierto = async (
+  tx: TransactionClient,
+  periodoId: number
+): Promise<void> => {
+  const periodo = await tx.periodoLibras.findUnique({
+    where: { id: periodoId },
+    select: { status: true },
+  });
+
+  if (!periodo || periodo.status !== STATUS_PERIODO.ABIERTO) {
+    throw createBadRequestError(ERROR_MESSAGES.PERIODO_NO_ABIERTO);
+  }
+};
+
+/**
+ * Verificar (bajo bloqueo) que el periodo todavía se pueda editar
+ */
+export const validarPeriodoEditable = async (
+  tx: TransactionClient,
+  periodoId: number
+): Promise<void> => {
+  const periodo = await tx.periodoLibras.findUnique({
+    where: { id: periodoId },
+    select: { status: true },
+  });
+
+  if (!periodo || !STATUS_PERIODO_EDITABLES.includes(periodo.status)) {
+    throw createBadRequestError(ERROR_MESSAGES.PERIODO_NO_EDITABLE);
+  }
+};
+
+/**
+ * Cambiar el estado de un periodo aplicando la cascada sobre sus reservas
+ * y lista de espera. No se usa para archivar (ver closePeriodo)
+ */
+export const cambiarStatusPeriodo = async (
+  periodoId: number,
+  statusNuevo: StatusPeriodo,
+  actorId: number,
+  motivo?: string | null,
+  apiKeyId?: number | null
+): Promise<CambioStatusPeriodo> => {
+  if (statusNuevo === STATUS_PERIODO.ARCHIVADO) {
+    throw createBadRequestError(ERROR_MESSAGES.PERIODO_ARCHIVAR_CON_CLOSE);
+  }
+
+  return ejecutarConCapacidad(async (tx) => {
+    await bloquearPeriodos(tx, [periodoId]);
+
+    const periodo = await tx.periodoLibras.findUnique({
+      where: { id: periodoId },
+      select: { id: true, status: true },
+    });
+
+    if (!periodo) {
+      throw createNotFoundError(ERROR_MESSAGES.PERIODO_NOT_FOUND);
+    }
+
+    const transicion = puedeTransicionarPeriodo(periodo.status, statusNuevo);
+
+    if (!transicion.allowed) {
+      throw createBadRequestError(transicion.reason!);
+    }
+
+    const motivoEvento = motivo || `Periodo cambiado de ${periodo.status} a ${statusNuevo}`;
+    const cascada = CASCADA_RESERVAS[statusNuevo] ?? {};
+    const fechaActual = parseDateWithoutTimezone(getTodayDateString());
+    let reservasActualizadas = 0;
+
+    const reservas = await tx.reserva.findMany({
+      where: { periodoId, status: { in: Object.keys(cascada) as StatusReserva[] } },
+      select: { id: true, status: true },
+    });
+
+    for (const reserva of reservas) {
+      const destino = cascada[reserva.status]!;
+
+      await tx.reserva.update({
+        where: { id: reserva.id },
+        data: {
+          status: destino,
+          ...(destino === 'ENVIADA' ? { fechaEnvio: fechaActual } : {}),
+        },
+      });
+
+      await registrarEventoReserva(tx, {
+        reservaId: reserva.id,
+        statusAnterior: reserva.status,
+        statusNuevo: destino,
+        actorId,
+        apiKeyId,
+        motivo: motivoEvento,
+      });
+
+      reservasActualizadas++;
+    }
+
+    // Fuera de ABIERTO la cola ya no puede atenderse
+    const { count: entradasExpiradas } = await tx.listaEspera.updateMany({
+      where: { periodoId, status: 'EN_ESPERA' },
+      data: { status: 'EXPIRADA' },
+    });
+
+    // Un periodo CERRADO aún puede repartir; enviado o cancelado ya no
+    const { count: solicitudesExpiradas } = statusNuevo === STATUS_PERIODO.CERRADO
+      ? { count: 0 }
+      : await tx.solicitudAsignacion.updateMany({
+          where: { periodoId, status: 'PENDIENTE' },
+          data: { status: 'EXPIRADA' },
+        });
+
+    await tx.periodoLibras.update({
+      where: { id: periodoId },
+      data: { status: statusNuevo },
+    });
+
+    return {
+      periodoId,
+      statusAnterior: periodo.status,
+      statusNuevo,
+      reservasActualizadas,
+      entradasExpiradas,
+      solicitudesExpiradas,
+    };
+  });
+};
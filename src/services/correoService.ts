@@ -0,0 +1,117 @@
+/**
+ * Servicio de correo
+ * El envío pasa por un transporte intercambiable: SMTP en producción
+ * o un outbox en disco/consola para desarrollo sin servidor de correo
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { CONFIG } from '../config/constants';
+
+/**
+ * Mensaje de correo
+ */
+export interface MensajeCorreo {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transporte de correo
+ */
+export interface TransporteCorreo {
+  nombre: string;
+  enviar(mensaje: MensajeCorreo): Promise<void>;
+}
+
+/**
+ * Transporte SMTP (nodemailer)
+ */
+export const crearTransporteSmtp = (): TransporteCorreo => {
+  const transporter = nodemailer.createTransport({
+    host: CONFIG.SMTP_HOST,
+    port: CONFIG.SMTP_PORT,
+    secure: CONFIG.SMTP_SECURE,
+    ...(CONFIG.SMTP_USER ? { auth: { user: CONFIG.SMTP_USER, pass: CONFIG.SMTP_PASS } } : {}),
+  });
+
+  return {
+    nombre: 'smtp',
+    enviar: async (mensaje) => {
+      await transporter.sendMail({ from: CONFIG.MAIL_FROM, ...mensaje });
+    },
+  };
+};
+
+/**
+ * Transporte outbox: guarda cada correo como JSON en un directorio
+ * La consola solo muestra destinatario y asunto: el cuerpo lleva enlaces con tokens
+ */
+export const crearTransporteOutbox = (directorio: string = CONFIG.MAIL_OUTBOX_DIR): TransporteCorreo => {
+  return {
+    nombre: 'outbox',
+    enviar: async (mensaje) => {
+      await fs.mkdir(directorio, { recursive: true });
+
+      const fecha = new Date();
+      const archivo = path.join(
+        directorio,
+        `${fecha.toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`
+      );
+
+      await fs.writeFile(
+        archivo,
+        JSON.stringify({ from: CONFIG.MAIL_FROM, ...mensaje, fecha: fecha.toISOString() }, null, 2)
+      );
+
+      console.log('='.repeat(50));
+      console.log(`📧 Correo para ${mensaje.to}: ${mensaje.subject}`);
+      console.log(`📁 Guardado en ${archivo}`);
+      console.log('='.repeat(50));
+    },
+  };
+};
+
+let transporte: TransporteCorreo | null = null;
+
+/**
+ * Validar la configuración de correo al arrancar
+ * En producción el outbox no envía nada y deja enlaces válidos en disco
+ */
+export const validarConfiguracionCorreo = (): void => {
+  if (!['smtp', 'outbox'].includes(CONFIG.MAIL_TRANSPORT)) {
+    throw new Error(`MAIL_TRANSPORT inválido: ${CONFIG.MAIL_TRANSPORT} (usa smtp u outbox)`);
+  }
+
+  if (CONFIG.NODE_ENV === 'production' && CONFIG.MAIL_TRANSPORT === 'outbox') {
+    throw new Error('MAIL_TRANSPORT=outbox no se permite en producción (configura SMTP)');
+  }
+};
+
+/**
+ * Transporte configurado (CONFIG.MAIL_TRANSPORT)
+ */
+export const obtenerTransporteCorreo = (): TransporteCorreo => {
+  if (!transporte) {
+    transporte = CONFIG.MAIL_TRANSPORT === 'smtp' ? crearTransporteSmtp() : crearTransporteOutbox();
+  }
+
+  return transporte;
+};
+
+/**
+ * Reemplazar el transporte (p. ej. para pruebas)
+ */
+export const configurarTransporteCorreo = (nuevo: TransporteCorreo): void => {
+  transporte = nuevo;
+};
+
+/**
+ * Enviar un correo con el transporte configurado
+ */
+export const enviarCorreo = async (mensaje: MensajeCorreo): Promise<void> => {
+  await obtenerTransporteCorreo().enviar(mensaje);
+};
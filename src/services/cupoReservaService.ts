@@ -0,0 +1,179 @@
+/**
+ * Servicio de cupos de reserva por usuario
+ * Límites por usuario en cada periodo: libras máximas, tamaño mínimo de
+ * reserva y reservas abiertas. Prioridad: usuario > periodo > global (CONFIG);
+ * null = hereda el siguiente nivel, 0 = sin límite
+ */
+
+import { Prisma } from '@prisma/client';
+import { CONFIG } from '../config/constants';
+import { createBadRequestError } from '../middlewares/errorHandler';
+import { TransactionClient } from './capacidadService';
+
+// Reservas que aún ocupan un lugar del usuario en el periodo
+const STATUS_ABIERTOS = ['PENDIENTE', 'CONFIRMADA'] as const;
+
+type Decimal = Prisma.Decimal | number | null;
+
+/**
+ * Configuración de límites de un nivel (periodo o usuario)
+ */
+export interface ConfigLimites {
+  maxLibrasPorUsuario: Decimal;
+  minLibrasReserva: Decimal;
+  maxReservasAbiertas: number | null;
+}
+
+/**
+ * Límites efectivos (null = sin límite)
+ */
+export interface LimitesReserva {
+  maxLibrasPorUsuario: number | null;
+  minLibrasReserva: number | null;
+  maxReservasAbiertas: number | null;
+}
+
+/**
+ * Cupo del usuario en un periodo
+ */
+export interface CupoUsuario extends LimitesReserva {
+  librasReservadas: number;
+  reservasAbiertas: number;
+  librasDisponibles: number | null; // Lo que aún puede reservar (null = sin límite propio)
+}
+
+/**
+ * Primer valor configurado entre los niveles; 0 se traduce a "sin límite"
+ */
+const resolverNivel = (...valores: Decimal[]): number | null => {
+  const valor = valores.find((v) => v !== null && v !== undefined);
+  const numero = valor === undefined || valor === null ? 0 : parseFloat(valor.toString());
+
+  return numero > 0 ? numero : null;
+};
+
+/**
+ * Resolver los límites efectivos de un usuario en un periodo
+ */
+export const resolverLimites = (
+  periodo: ConfigLimites,
+  usuario: ConfigLimites | null
+): LimitesReserva => ({
+  maxLibrasPorUsuario: resolverNivel(
+    usuario?.maxLibrasPorUsuario ?? null,
+    periodo.maxLibrasPorUsuario,
+    CONFIG.LIMITE_MAX_LIBRAS_USUARIO
+  ),
+  minLibrasReserva: resolverNivel(
+    usuario?.minLibrasReserva ?? null,
+    periodo.minLibrasReserva,
+    CONFIG.LIMITE_MIN_LIBRAS_RESERVA
+  ),
+  maxReservasAbiertas: resolverNivel(
+    usuario?.maxReservasAbiertas ?? null,
+    periodo.maxReservasAbiertas,
+    CONFIG.LIMITE_MAX_RESERVAS_ABIERTAS
+  ),
+});
+
+/**
+ * Calcular el cupo de un usuario en varios periodos
+ * Dentro de ejecutarConCapacidad debe llamarse con los periodos ya bloqueados
+ * @param excludeReservaId - Reserva que se está editando (no cuenta contra el cupo)
+ */
+export const calcularCupos = async (
+  tx: TransactionClient,
+  userId: number,
+  periodos: (ConfigLimites & { id: number })[],
+  excludeReservaId?: number
+): Promise<Map<number, CupoUsuario>> => {
+  const periodoIds = periodos.map((p) => p.id);
+
+  const [limitesUsuario, reservas] = await Promise.all([
+    tx.limiteUsuario.findUnique({ where: { userId } }),
+    tx.reserva.findMany({
+      where: {
+        userId,
+        periodoId: { in: periodoIds },
+        status: { not: 'CANCELADA' },
+        ...(excludeReservaId ? { id: { not: excludeReservaId } } : {}),
+      },
+      select: { periodoId: true, libras: true, status: true },
+    }),
+  ]);
+
+  const cupos = new Map<number, CupoUsuario>();
+
+  for (const periodo of periodos) {
+    const limites = resolverLimites(periodo, limitesUsuario);
+    const propias = reservas.filter((r) => r.periodoId === periodo.id);
+
+    const librasReservadas = propias.reduce((sum, r) => sum + parseFloat(r.libras.toString()), 0);
+    const reservasAbiertas = propias.filter((r) =>
+      (STATUS_ABIERTOS as readonly string[]).includes(r.status)
+    ).length;
+
+    let librasDisponibles: number | null = null;
+
+    if (limites.maxReservasAbiertas !== null && reservasAbiertas >= limites.maxReservasAbiertas) {
+      librasDisponibles = 0;
+    } else if (limites.maxLibrasPorUsuario !== null) {
+      librasDisponibles = Math.max(0, limites.maxLibrasPorUsuario - librasReservadas);
+    }
+
+    cupos.set(periodo.id, { ...limites, librasReservadas, reservasAbiertas, librasDisponibles });
+  }
+
+  return cupos;
+};
+
+/**
+ * Motivo por el que una reserva no cabe en el cupo del usuario (null = cabe)
+ * @param abreReserva - La reserva pasa a ocupar un lugar abierto (nueva o reactivada)
+ */
+export const motivoCupoExcedido = (
+  cupo: CupoUsuario,
+  libras: number,
+  abreReserva: boolean
+): string | null => {
+  if (cupo.minLibrasReserva !== null && libras < cupo.minLibrasReserva) {
+    return `La reserva mínima en este periodo es de ${cupo.minLibrasReserva} lbs. Solicitadas: ${libras} lbs`;
+  }
+
+  if (
+    abreReserva &&
+    cupo.maxReservasAbiertas !== null &&
+    cupo.reservasAbiertas >= cupo.maxReservasAbiertas
+  ) {
+    return (
+      `Ya tienes ${cupo.reservasAbiertas} reservas abiertas en este periodo ` +
+      `(máximo ${cupo.maxReservasAbiertas})`
+    );
+  }
+
+  if (cupo.maxLibrasPorUsuario !== null && cupo.librasReservadas + libras > cupo.maxLibrasPorUsuario) {
+    return (
+      `Superas tu límite de ${cupo.maxLibrasPorUsuario} lbs en este periodo. ` +
+      `Ya tienes ${cupo.librasReservadas} lbs reservadas; ` +
+      `puedes reservar hasta ${Math.max(0, cupo.maxLibrasPorUsuario - cupo.librasReservadas).toFixed(2)} lbs más`
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Validar una reserva (nueva, editada o reactivada) contra el cupo del usuario
+ * @param abreReserva - La reserva pasa a ocupar un lugar abierto (nueva o reactivada)
+ */
+export const validarCupoReserva = (
+  cupo: CupoUsuario,
+  libras: number,
+  abreReserva: boolean
+): void => {
+  const motivo = motivoCupoExcedido(cupo, libras, abreReserva);
+
+  if (motivo) {
+    throw createBadRequestError(motivo);
+  }
+};
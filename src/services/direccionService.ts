@@ -0,0 +1,115 @@
+/**
+ * Servicio de direcciones de entrega
+ * Libreta de direcciones del usuario y la copia que se guarda en cada reserva
+ */
+
+import { Direccion, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { ERROR_MESSAGES } from '../config/constants';
+import { createBadRequestError, createNotFoundError } from '../middlewares/errorHandler';
+import { DireccionEntrega } from '../types';
+import { TransactionClient } from './capacidadService';
+
+export const DIRECCION_SELECT = {
+  id: true,
+  alias: true,
+  destinatario: true,
+  telefono: true,
+  calle: true,
+  colonia: true,
+  ciudad: true,
+  estado: true,
+  codigoPostal: true,
+  referencias: true,
+  isDefault: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * Buscar una dirección del usuario
+ * Las direcciones de otros usuarios responden como inexistentes
+ */
+export const obtenerDireccionUsuario = async (
+  client: TransactionClient,
+  userId: number,
+  direccionId: number
+): Promise<Direccion> => {
+  const direccion = await client.direccion.findFirst({
+    where: { id: direccionId, userId },
+  });
+
+  if (!direccion) {
+    throw createNotFoundError(ERROR_MESSAGES.DIRECCION_NOT_FOUND);
+  }
+
+  return direccion;
+};
+
+/**
+ * Marcar una dirección como predeterminada (desmarca las demás)
+ */
+export const marcarPredeterminada = async (
+  tx: TransactionClient,
+  userId: number,
+  direccionId: number
+): Promise<void> => {
+  await tx.direccion.updateMany({
+    where: { userId, isDefault: true, id: { not: direccionId } },
+    data: { isDefault: false },
+  });
+
+  await tx.direccion.update({
+    where: { id: direccionId },
+    data: { isDefault: true },
+  });
+};
+
+/**
+ * Copia de la dirección que se guarda en la reserva
+ */
+const snapshotDireccion = (direccion: Direccion): DireccionEntrega => ({
+  direccionId: direccion.id,
+  alias: direccion.alias,
+  destinatario: direccion.destinatario,
+  telefono: direccion.telefono,
+  calle: direccion.calle,
+  colonia: direccion.colonia,
+  ciudad: direccion.ciudad,
+  estado: direccion.estado,
+  codigoPostal: direccion.codigoPostal,
+  referencias: direccion.referencias,
+});
+
+/**
+ * Resolver el destino y la dirección de entrega de una reserva nueva
+ * Sin direccionId se usa la predeterminada; sin estado, el de la dirección
+ * o el destino predeterminado del perfil
+ */
+export const resolverEntregaReserva = async (
+  userId: number,
+  datos: { estado?: string; direccionId?: number }
+): Promise<{ estado: string; direccionEntrega: Prisma.InputJsonObject | typeof Prisma.DbNull }> => {
+  const direccion = datos.direccionId
+    ? await obtenerDireccionUsuario(prisma, userId, datos.direccionId)
+    : await prisma.direccion.findFirst({ where: { userId, isDefault: true } });
+
+  let estado = datos.estado || direccion?.estado;
+
+  if (!estado) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { defaultEstado: true },
+    });
+    estado = user?.defaultEstado ?? undefined;
+  }
+
+  if (!estado) {
+    throw createBadRequestError(ERROR_MESSAGES.ESTADO_REQUERIDO);
+  }
+
+  return {
+    estado,
+    direccionEntrega: direccion ? { ...snapshotDireccion(direccion) } : Prisma.DbNull,
+  };
+};
@@ -0,0 +1,109 @@
+/**
+ * Servicio de verificación en dos pasos (TOTP + códigos de recuperación)
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../config/prisma';
+import { CONFIG, ROLES } from '../config/constants';
+import { verificarCodigoTotp } from '../utils/totp';
+import { TransactionClient } from './capacidadService';
+
+/**
+ * Hash de un código de recuperación
+ * Se normaliza para aceptar mayúsculas/minúsculas y sin guion
+ */
+const hashCodigoRecuperacion = (codigo: string): string => {
+  const normalizado = codigo.toLowerCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalizado).digest('hex');
+};
+
+/**
+ * Generar códigos de recuperación nuevos (reemplaza los anteriores)
+ * @returns Códigos en texto plano: solo se muestran esta vez
+ */
+export const generarCodigosRecuperacion = async (
+  tx: TransactionClient,
+  userId: number
+): Promise<string[]> => {
+  const codigos = Array.from({ length: CONFIG.TOTP_CODIGOS_RECUPERACION }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await tx.codigoRecuperacion.deleteMany({ where: { userId } });
+  await tx.codigoRecuperacion.createMany({
+    data: codigos.map((codigo) => ({ userId, codigoHash: hashCodigoRecuperacion(codigo) })),
+  });
+
+  return codigos;
+};
+
+/**
+ * Verificar un código TOTP y marcar su paso como usado
+ * Un mismo código no se acepta dos veces (protección contra repetición)
+ */
+export const consumirCodigoTotp = async (
+  user: { id: number; totpSecret: string | null },
+  codigo: string
+): Promise<boolean> => {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const paso = verificarCodigoTotp(user.totpSecret, codigo);
+
+  if (paso === null) {
+    return false;
+  }
+
+  // Solo avanza si el paso es posterior al último aceptado
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpUltimoPaso: null }, { totpUltimoPaso: { lt: paso } }],
+    },
+    data: { totpUltimoPaso: paso },
+  });
+
+  return count === 1;
+};
+
+/**
+ * Consumir un código de recuperación
+ */
+export const consumirCodigoRecuperacion = async (
+  userId: number,
+  codigo: string
+): Promise<boolean> => {
+  const { count } = await prisma.codigoRecuperacion.updateMany({
+    where: { userId, codigoHash: hashCodigoRecuperacion(codigo), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return count === 1;
+};
+
+/**
+ * Verificar el segundo factor con un código TOTP o uno de recuperación
+ */
+export const verificarSegundoFactor = async (
+  user: { id: number; totpSecret: string | null },
+  factor: { codigo?: string; codigoRecuperacion?: string }
+): Promise<boolean> => {
+  if (factor.codigo) {
+    return consumirCodigoTotp(user, factor.codigo);
+  }
+
+  if (factor.codigoRecuperacion) {
+    return consumirCodigoRecuperacion(user.id, factor.codigoRecuperacion);
+  }
+
+  return false;
+};
+
+/**
+ * Verificar si el rol exige 2FA
+ */
+export const requiere2FA = (role: string): boolean => {
+  return CONFIG.TOTP_REQUIRED_FOR_ADMIN && role === ROLES.ADMIN_PRINCIPAL;
+};
@@ -0,0 +1,63 @@
+/**
+ * Servicio de impersonación ("ver como usuario")
+ * Soporte puede consultar la API exactamente como la ve un usuario;
+ * la impersonación es de solo lectura y cada solicitud queda registrada
+ */
+
+import { prisma } from '../config/prisma';
+import { PERMISOS } from '../config/constants';
+import { obtenerPermisosRol } from './permisoService';
+
+const METODOS_LECTURA = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Verificar si un método HTTP es de solo lectura
+ */
+export const esMetodoLectura = (metodo: string): boolean => {
+  return METODOS_LECTURA.includes(metodo.toUpperCase());
+};
+
+/**
+ * Cargar al admin que impersona
+ * Debe seguir activo y conservar el permiso users:impersonate
+ * @returns Admin, o null si la impersonación ya no es válida
+ */
+export const cargarImpersonador = async (impersonadorId: number) => {
+  const impersonador = await prisma.user.findUnique({
+    where: { id: impersonadorId },
+    select: { id: true, email: true, name: true, role: true, isActive: true },
+  });
+
+  if (!impersonador || !impersonador.isActive) {
+    return null;
+  }
+
+  const permisos = await obtenerPermisosRol(impersonador.role);
+
+  if (!permisos.includes(PERMISOS.USERS_IMPERSONATE)) {
+    return null;
+  }
+
+  return { id: impersonador.id, email: impersonador.email, name: impersonador.name };
+};
+
+/**
+ * Registrar una solicitud hecha durante una impersonación
+ * Un fallo al registrar no debe romper la respuesta ya enviada
+ */
+export const registrarSolicitudImpersonada = async (data: {
+  impersonadorId: number;
+  usuarioId: number;
+  metodo: string;
+  ruta: string;
+  statusCode: number | null;
+  ipAddress: string | null;
+}): Promise<void> => {
+  try {
+    await prisma.registroImpersonacion.create({
+      data: { ...data, ruta: data.ruta.slice(0, 500) },
+    });
+  } catch (error) {
+    console.error('❌ Error al registrar solicitud impersonada:', error);
+  }
+};
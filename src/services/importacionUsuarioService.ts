@@ -0,0 +1,240 @@
+/**
+ * Servicio de importación de usuarios por CSV
+ * Columnas: name, email, role y phone (role y phone opcionales).
+ * Todas las filas se validan antes de crear nada: o se importan todas o ninguna
+ */
+
+import crypto from 'crypto';
+import { Request } from 'express';
+import { validationResult } from 'express-validator';
+import { Role } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { CONFIG, ROLES } from '../config/constants';
+import { createBadRequestError } from '../middlewares/errorHandler';
+import { importUserRowValidation } from '../validators/userValidators';
+import { hashPassword } from '../utils/validators';
+import { parseCsv } from '../utils/csv';
+import { enviarCorreo } from './correoService';
+import { emitirTokenUsuario } from './tokenUsuarioService';
+
+const COLUMNAS = ['name', 'email', 'role', 'phone'] as const;
+const COLUMNAS_REQUERIDAS = ['name', 'email'];
+
+type Columna = typeof COLUMNAS[number];
+
+/**
+ * Fila del CSV ya validada
+ */
+export interface UsuarioImportado {
+  fila: number;
+  name: string;
+  email: string;
+  role: Role;
+  phone: string | null;
+}
+
+/**
+ * Resultado de validar un archivo
+ * Los errores se agrupan por "fila <n>.<campo>" (la fila 1 es el encabezado)
+ */
+export interface ValidacionImportacion {
+  total: number;
+  validas: UsuarioImportado[];
+  errores: Record<string, string[]>;
+}
+
+/**
+ * Leer el CSV y asociar cada fila con su encabezado
+ */
+const leerFilas = (contenido: string): { fila: number; datos: Record<Columna, string> }[] => {
+  const [encabezado, ...filas] = parseCsv(contenido);
+
+  if (!encabezado) {
+    throw createBadRequestError('El archivo CSV está vacío');
+  }
+
+  const columnas = encabezado.map((columna) => columna.trim().toLowerCase());
+  const faltantes = COLUMNAS_REQUERIDAS.filter((columna) => !columnas.includes(columna));
+
+  if (faltantes.length > 0) {
+    throw createBadRequestError(`Faltan columnas en el CSV: ${faltantes.join(', ')}`);
+  }
+
+  if (filas.length === 0) {
+    throw createBadRequestError('El archivo CSV no tiene filas de usuarios');
+  }
+
+  if (filas.length > CONFIG.USER_IMPORT_MAX_ROWS) {
+    throw createBadRequestError(`El archivo excede el máximo de ${CONFIG.USER_IMPORT_MAX_ROWS} filas`);
+  }
+
+  return filas.map((celdas, index) => {
+    const datos = {} as Record<Columna, string>;
+
+    for (const columna of COLUMNAS) {
+      const posicion = columnas.indexOf(columna);
+      datos[columna] = posicion >= 0 ? celdas[posicion] ?? '' : '';
+    }
+
+    return { fila: index + 2, datos };
+  });
+};
+
+/**
+ * Validar un archivo de importación
+ * Aplica las reglas de userValidators a cada fila y revisa emails repetidos
+ * en el archivo o ya registrados (incluidos usuarios dados de baja)
+ * @param puedeAsignarAdmin - Solo un ADMIN_PRINCIPAL puede importar ese rol
+ */
+export const validarImportacion = async (
+  contenido: string,
+  puedeAsignarAdmin: boolean
+): Promise<ValidacionImportacion> => {
+  const filas = leerFilas(contenido);
+  const errores: Record<string, string[]> = {};
+  const candidatas: UsuarioImportado[] = [];
+
+  const agregarError = (fila: number, campo: string, mensaje: string) => {
+    const clave = `fila ${fila}.${campo}`;
+    errores[clave] = [...(errores[clave] ?? []), mensaje];
+  };
+
+  for (const { fila, datos } of filas) {
+    // Las validaciones se ejecutan sobre una solicitud simulada con la fila como body
+    const solicitud = { body: { ...datos } } as Request;
+    await Promise.all(importUserRowValidation.map((validacion) => validacion.run(solicitud)));
+
+    const resultado = validationResult(solicitud);
+
+    if (!resultado.isEmpty()) {
+      resultado.array().forEach((error) => {
+        if (error.type === 'field') {
+          agregarError(fila, error.path, error.msg);
+        }
+      });
+      continue;
+    }
+
+    const role = (solicitud.body.role || ROLES.USUARIO) as Role;
+
+    if (role === ROLES.ADMIN_PRINCIPAL && !puedeAsignarAdmin) {
+      agregarError(fila, 'role', 'Solo un ADMIN_PRINCIPAL puede asignar el rol ADMIN_PRINCIPAL');
+      continue;
+    }
+
+    candidatas.push({
+      fila,
+      name: solicitud.body.name,
+      email: solicitud.body.email,
+      role,
+      phone: solicitud.body.phone || null,
+    });
+  }
+
+  // Emails repetidos dentro del archivo
+  const primeraFila = new Map<string, number>();
+  const unicas = candidatas.filter((usuario) => {
+    const anterior = primeraFila.get(usuario.email);
+
+    if (anterior !== undefined) {
+      agregarError(usuario.fila, 'email', `Email repetido (ya aparece en la fila ${anterior})`);
+      return false;
+    }
+
+    primeraFila.set(usuario.email, usuario.fila);
+    return true;
+  });
+
+  // Emails ya registrados
+  const existentes = await prisma.user.findMany({
+    where: { email: { in: unicas.map((usuario) => usuario.email) } },
+    select: { email: true },
+  });
+  const emailsExistentes = new Set(existentes.map((usuario) => usuario.email));
+
+  const validas = unicas.filter((usuario) => {
+    if (emailsExistentes.has(usuario.email)) {
+      agregarError(usuario.fila, 'email', 'El email ya está registrado');
+      return false;
+    }
+
+    return true;
+  });
+
+  return { total: filas.length, validas, errores };
+};
+
+/**
+ * Crear los usuarios importados en una sola transacción
+ * Reciben una contraseña aleatoria: la definen con el enlace de acceso
+ * o con "olvidé mi contraseña"
+ */
+export const crearUsuariosImportados = async (usuarios: UsuarioImportado[]) => {
+  const password = await hashPassword(crypto.randomBytes(32).toString('hex'));
+
+  return prisma.$transaction(async (tx) => {
+    await tx.user.createMany({
+      data: usuarios.map((usuario) => ({
+        name: usuario.name,
+        email: usuario.email,
+        role: usuario.role,
+        phone: usuario.phone,
+        password,
+        emailVerifiedAt: new Date(), // Creados por el admin: no requieren verificación
+      })),
+    });
+
+    return tx.user.findMany({
+      where: { email: { in: usuarios.map((usuario) => usuario.email) } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        phone: true,
+        createdAt: true,
+      },
+      orderBy: { id: 'asc' },
+    });
+  });
+};
+
+/**
+ * Enviar a cada usuario importado un enlace para definir su contraseña
+ * Un fallo de envío no interrumpe la importación: pueden usar "olvidé mi contraseña"
+ * @returns Cantidad de correos enviados
+ */
+export const enviarAccesoUsuariosImportados = async (
+  usuarios: { id: number; name: string; email: string }[],
+  invitadoPor: string
+): Promise<number> => {
+  let enviados = 0;
+
+  for (const usuario of usuarios) {
+    try {
+      const token = await emitirTokenUsuario(
+        usuario.id,
+        'RESET_PASSWORD',
+        CONFIG.INVITATION_TTL_HOURS * 60
+      );
+      const enlace = `${CONFIG.FRONTEND_URL}/reset-password?token=${token}`;
+
+      await enviarCorreo({
+        to: usuario.email,
+        subject: 'Te invitaron a Paquetería',
+        text:
+          `Hola ${usuario.name},\n\n` +
+          `${invitadoPor} creó tu cuenta. ` +
+          `Define tu contraseña con este enlace (válido por ${CONFIG.INVITATION_TTL_HOURS} horas):\n\n` +
+          `${enlace}\n\n` +
+          `Si no esperabas esta invitación, ignora este correo.`,
+      });
+
+      enviados++;
+    } catch (error) {
+      console.error(`❌ Error al enviar acceso a ${usuario.email}:`, error);
+    }
+  }
+
+  return enviados;
+};
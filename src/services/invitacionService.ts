@@ -0,0 +1,169 @@
+/**
+ * Servicio de invitaciones
+ * Alta de usuarios por invitación: el admin elige el email y el rol,
+ * el invitado define su nombre y contraseña al aceptar
+ */
+
+import crypto from 'crypto';
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { CONFIG, ERROR_MESSAGES, MODOS_REGISTRO, STATUS_INVITACION } from '../config/constants';
+import { createBadRequestError, createConflictError, createForbiddenError } from '../middlewares/errorHandler';
+import { enviarCorreo } from './correoService';
+
+/**
+ * Hash de un token de invitación
+ */
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Generar un token nuevo y su fecha de expiración
+ */
+export const generarTokenInvitacion = () => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + CONFIG.INVITATION_TTL_HOURS * 60 * 60 * 1000),
+  };
+};
+
+/**
+ * Verificar que el modo de registro admita invitaciones
+ */
+export const validarInvitacionesActivas = (): void => {
+  if (CONFIG.REGISTRATION_MODE === MODOS_REGISTRO.CLOSED) {
+    throw createForbiddenError(ERROR_MESSAGES.INVITACIONES_DESACTIVADAS);
+  }
+};
+
+/**
+ * Estado de una invitación según sus fechas
+ */
+export const statusInvitacion = (invitacion: {
+  acceptedAt: Date | null;
+  revokedAt: Date | null;
+  expiresAt: Date;
+}): string => {
+  if (invitacion.acceptedAt) return STATUS_INVITACION.ACEPTADA;
+  if (invitacion.revokedAt) return STATUS_INVITACION.REVOCADA;
+  if (invitacion.expiresAt <= new Date()) return STATUS_INVITACION.EXPIRADA;
+  return STATUS_INVITACION.PENDIENTE;
+};
+
+/**
+ * Filtro de Prisma para un estado de invitación
+ */
+export const filtroStatusInvitacion = (status: string): Prisma.InvitacionWhereInput => {
+  const ahora = new Date();
+
+  switch (status) {
+    case STATUS_INVITACION.ACEPTADA:
+      return { acceptedAt: { not: null } };
+    case STATUS_INVITACION.REVOCADA:
+      return { acceptedAt: null, revokedAt: { not: null } };
+    case STATUS_INVITACION.EXPIRADA:
+      return { acceptedAt: null, revokedAt: null, expiresAt: { lte: ahora } };
+    default:
+      return { acceptedAt: null, revokedAt: null, expiresAt: { gt: ahora } };
+  }
+};
+
+/**
+ * Enviar el correo de invitación
+ * Un fallo de envío no interrumpe la solicitud: se puede reenviar después
+ */
+export const enviarCorreoInvitacion = async (
+  invitacion: { email: string; role: Role },
+  token: string,
+  invitadoPor: string
+): Promise<void> => {
+  const enlace = `${CONFIG.FRONTEND_URL}/accept-invitation?token=${token}`;
+
+  try {
+    await enviarCorreo({
+      to: invitacion.email,
+      subject: 'Te invitaron a Paquetería',
+      text:
+        `Hola,\n\n` +
+        `${invitadoPor} te invitó a crear tu cuenta. ` +
+        `Define tu nombre y contraseña con este enlace (válido por ${CONFIG.INVITATION_TTL_HOURS} horas):\n\n` +
+        `${enlace}\n\n` +
+        `Si no esperabas esta invitación, ignora este correo.`,
+    });
+  } catch (error) {
+    console.error('❌ Error al enviar correo de invitación:', error);
+  }
+};
+
+/**
+ * Aceptar una invitación y crear el usuario
+ * El updateMany condicionado evita que dos solicitudes usen la misma invitación
+ */
+export const aceptarInvitacion = async (
+  token: string,
+  data: { name: string; password: string }
+) => {
+  validarInvitacionesActivas();
+
+  return prisma.$transaction(async (tx) => {
+    const invitacion = await tx.invitacion.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!invitacion) {
+      throw createBadRequestError(ERROR_MESSAGES.INVITACION_INVALIDA);
+    }
+
+    const { count } = await tx.invitacion.updateMany({
+      where: {
+        id: invitacion.id,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { acceptedAt: new Date() },
+    });
+
+    if (count !== 1) {
+      throw createBadRequestError(ERROR_MESSAGES.INVITACION_INVALIDA);
+    }
+
+    const existente = await tx.user.findUnique({
+      where: { email: invitacion.email },
+      select: { id: true },
+    });
+
+    if (existente) {
+      throw createConflictError(ERROR_MESSAGES.EMAIL_ALREADY_EXISTS);
+    }
+
+    // El enlace llegó al email invitado: queda verificado
+    const user = await tx.user.create({
+      data: {
+        name: data.name,
+        email: invitacion.email,
+        password: data.password,
+        role: invitacion.role,
+        emailVerifiedAt: new Date(),
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        createdAt: true,
+      },
+    });
+
+    await tx.invitacion.update({
+      where: { id: invitacion.id },
+      data: { userId: user.id },
+    });
+
+    return user;
+  });
+};
@@ -0,0 +1,133 @@
+/**
+ * Servicio de lista de espera
+ * Promoción FIFO de solicitudes cuando se libera capacidad en un periodo
+ */
+
+import { Prisma } from '@prisma/client';
+import { TransactionClient, calcularLibrasReservadas } from './capacidadService';
+import { registrarEventoReserva } from './reservaEventoService';
+import { estaVentanaAbierta } from './ventanaReservaService';
+import { calcularCupos, motivoCupoExcedido } from './cupoReservaService';
+import { usaSolicitudes } from './asignacionPeriodoService';
+import { parseDateWithoutTimezone } from '../utils/validators';
+
+/**
+ * Calcular la posición de una entrada en la cola de su periodo
+ * La cola se ordena por ID (orden de llegada)
+ */
+export const calcularPosicionListaEspera = async (
+  tx: TransactionClient,
+  entrada: { id: number; periodoId: number }
+): Promise<number> => {
+  return tx.listaEspera.count({
+    where: {
+      periodoId: entrada.periodoId,
+      status: 'EN_ESPERA',
+      id: { lte: entrada.id },
+    },
+  });
+};
+
+/**
+ * Promover entradas de la lista de espera a reservas PENDIENTE
+ * Debe llamarse dentro de ejecutarConCapacidad con el periodo ya bloqueado.
+ * Respeta el orden FIFO: si la primera entrada no cabe, nadie la adelanta.
+ * Una entrada que ya no cabe en los límites de su usuario (los consumió
+ * después de entrar a la cola) se salta y sigue en espera.
+ * En periodos con solicitudes no se promueve hasta ejecutar la asignación:
+ * la capacidad libre pertenece al reparto.
+ * @returns IDs de las reservas creadas
+ */
+export const promoverListaEspera = async (
+  tx: TransactionClient,
+  periodoId: number
+): Promise<number[]> => {
+  const periodo = await tx.periodoLibras.findUnique({
+    where: { id: periodoId },
+    select: {
+      id: true,
+      librasTotales: true,
+      fechaEnvio: true,
+      status: true,
+      fechaApertura: true,
+      fechaCorte: true,
+      maxLibrasPorUsuario: true,
+      minLibrasReserva: true,
+      maxReservasAbiertas: true,
+      modoAsignacion: true,
+      fechaAsignacion: true,
+    },
+  });
+
+  // Tras la fecha de corte ya no se crean reservas desde la cola
+  if (!periodo || periodo.status !== 'ABIERTO' || !estaVentanaAbierta(periodo)) {
+    return [];
+  }
+
+  if (usaSolicitudes(periodo) && !periodo.fechaAsignacion) {
+    return [];
+  }
+
+  const entradas = await tx.listaEspera.findMany({
+    where: { periodoId, status: 'EN_ESPERA' },
+    orderBy: { id: 'asc' },
+  });
+
+  if (entradas.length === 0) {
+    return [];
+  }
+
+  let librasDisponibles =
+    periodo.librasTotales - (await calcularLibrasReservadas(tx, periodoId));
+  const fechaEnvio = parseDateWithoutTimezone(periodo.fechaEnvio.toISOString().split('T')[0]!);
+  const reservasCreadas: number[] = [];
+
+  for (const entrada of entradas) {
+    const libras = parseFloat(entrada.libras.toString());
+
+    if (libras > librasDisponibles) {
+      break;
+    }
+
+    // Cupo vigente del usuario, incluidas las reservas promovidas en esta pasada
+    const cupo = (await calcularCupos(tx, entrada.userId, [periodo])).get(periodoId)!;
+
+    if (motivoCupoExcedido(cupo, libras, true)) {
+      continue;
+    }
+
+    const reserva = await tx.reserva.create({
+      data: {
+        libras,
+        fecha: fechaEnvio,
+        estado: entrada.estado,
+        direccionEntrega: entrada.direccionEntrega ?? Prisma.DbNull,
+        observaciones: entrada.observaciones,
+        userId: entrada.userId,
+        periodoId,
+      },
+    });
+
+    await registrarEventoReserva(tx, {
+      reservaId: reserva.id,
+      statusAnterior: null,
+      statusNuevo: reserva.status,
+      actorId: null,
+      motivo: `Promovida desde lista de espera (entrada #${entrada.id})`,
+    });
+
+    await tx.listaEspera.update({
+      where: { id: entrada.id },
+      data: {
+        status: 'PROMOVIDA',
+        reservaId: reserva.id,
+        fechaPromocion: new Date(),
+      },
+    });
+
+    librasDisponibles -= libras;
+    reservasCreadas.push(reserva.id);
+  }
+
+  return reservasCreadas;
+};
@@ -0,0 +1,110 @@
+/**
+ * Servicio de permisos por rol
+ * El mapeo rol → permisos se guarda en la base de datos y se cachea en memoria;
+ * un rol sin configurar usa sus permisos por defecto
+ */
+
+import { Role } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { CONFIG, ROLES, PERMISOS, PERMISOS_POR_ROL_DEFECTO } from '../config/constants';
+
+let cache: { permisos: Map<string, string[]>; expira: number } | null = null;
+
+/**
+ * Catálogo completo de permisos
+ */
+export const CATALOGO_PERMISOS: readonly string[] = Object.values(PERMISOS);
+
+/**
+ * Cargar el mapeo desde la base de datos (con caché)
+ */
+const cargarPermisos = async (): Promise<Map<string, string[]>> => {
+  if (cache && cache.expira > Date.now()) {
+    return cache.permisos;
+  }
+
+  const filas = await prisma.rolPermisos.findMany();
+  const permisos = new Map<string, string[]>();
+
+  for (const fila of filas) {
+    const lista = Array.isArray(fila.permisos) ? fila.permisos : [];
+    // Ignorar permisos que ya no existen en el catálogo
+    permisos.set(
+      fila.role,
+      lista.filter((permiso): permiso is string =>
+        typeof permiso === 'string' && CATALOGO_PERMISOS.includes(permiso)
+      )
+    );
+  }
+
+  cache = { permisos, expira: Date.now() + CONFIG.PERMISOS_CACHE_SEGUNDOS * 1000 };
+
+  return permisos;
+};
+
+/**
+ * Invalidar la caché (tras modificar el mapeo)
+ */
+export const invalidarCachePermisos = (): void => {
+  cache = null;
+};
+
+/**
+ * Obtener los permisos de un rol
+ */
+export const obtenerPermisosRol = async (role: string): Promise<string[]> => {
+  // ADMIN_PRINCIPAL no se puede quedar sin permisos
+  if (role === ROLES.ADMIN_PRINCIPAL) {
+    return [...CATALOGO_PERMISOS];
+  }
+
+  const permisos = await cargarPermisos();
+
+  return permisos.get(role) ?? [...(PERMISOS_POR_ROL_DEFECTO[role] ?? [])];
+};
+
+/**
+ * Listar todos los roles con sus permisos
+ */
+export const listarPermisosPorRol = async (): Promise<
+  { role: string; permisos: string[]; personalizado: boolean; editable: boolean }[]
+> => {
+  const permisos = await cargarPermisos();
+
+  return Promise.all(
+    Object.values(ROLES).map(async (role) => ({
+      role,
+      permisos: await obtenerPermisosRol(role),
+      personalizado: permisos.has(role),
+      editable: role !== ROLES.ADMIN_PRINCIPAL,
+    }))
+  );
+};
+
+/**
+ * Reemplazar los permisos de un rol
+ */
+export const actualizarPermisosRol = async (role: Role, lista: string[]): Promise<string[]> => {
+  const permisos = [...new Set(lista)];
+
+  await prisma.rolPermisos.upsert({
+    where: { role },
+    create: { role, permisos },
+    update: { permisos },
+  });
+
+  invalidarCachePermisos();
+
+  return permisos;
+};
+
+/**
+ * Restablecer los permisos por defecto de un rol
+ */
+export const restablecerPermisosRol = async (role: Role): Promise<string[]> => {
+  await prisma.rolPermisos.deleteMany({ where: { role } });
+
+  invalidarCachePermisos();
+
+  return obtenerPermisosRol(role);
+};
@@ -0,0 +1,206 @@
+/**
+ * Servicio de planificación de reservas
+ * Reparte las libras solicitadas entre los periodos activos.
+ * Lo comparten la creación de reservas y la vista previa, para que
+ * ambas produzcan siempre el mismo plan.
+ */
+
+import { TransactionClient, bloquearPeriodos } from './capacidadService';
+import { parseDateWithoutTimezone } from '../utils/validators';
+import { createBadRequestError } from '../middlewares/errorHandler';
+import { filtroVentanaAbierta, validarVentanaAbierta } from './ventanaReservaService';
+import { CupoUsuario, calcularCupos } from './cupoReservaService';
+import { filtroReservaDirecta, validarReservaDirecta } from './asignacionPeriodoService';
+
+/**
+ * Periodo candidato con su ocupación actual
+ */
+export interface PeriodoCandidato {
+  id: number;
+  librasTotales: number;
+  fechaEnvio: Date;
+  librasReservadas: number;
+  cupoUsuario?: CupoUsuario; // Cupo del usuario que reserva (si se indicó)
+}
+
+/**
+ * Parte del plan asignada a un periodo
+ */
+export interface PlanReservaItem {
+  periodoId: number;
+  fechaEnvio: Date;
+  libras: number;
+  fecha: Date; // Fecha con la que se creará la reserva
+  librasDisponibles: number; // Disponibles en el periodo antes de asignar
+  cupoUsuario: number | null; // Lo que el usuario aún podía reservar ahí (null = sin límite)
+}
+
+/**
+ * Resultado de la planificación
+ */
+export interface PlanReserva {
+  librasSolicitadas: number;
+  librasAsignadas: number;
+  librasFaltantes: number;
+  completo: boolean;
+  limitadoPorCupo: boolean; // Los límites del usuario dejaron libras sin asignar
+  items: PlanReservaItem[];
+}
+
+/**
+ * Cargar los periodos candidatos para una solicitud
+ * Con `bloquear` se obtiene un bloqueo de fila antes de leer la ocupación
+ * (solo dentro de ejecutarConCapacidad). Solo se consideran periodos con la
+ * ventana de reservas abierta, salvo que se indique `ignorarVentana`, y que
+ * acepten reservas directas (no los que reparten por solicitudes antes del corte).
+ * Con `userId` se calcula además el cupo de ese usuario en cada periodo.
+ */
+export const cargarPeriodosCandidatos = async (
+  tx: TransactionClient,
+  params: { periodoId?: number; fechaReserva: Date; ignorarVentana?: boolean; userId?: number },
+  options: { bloquear: boolean }
+): Promise<PeriodoCandidato[]> => {
+  const { periodoId, fechaReserva, ignorarVentana, userId } = params;
+
+  // Buscar periodos candidatos
+  const candidatos = await tx.periodoLibras.findMany({
+    where: periodoId
+      ? { id: periodoId, status: 'ABIERTO' } // Periodo seleccionado del dropdown
+      : {
+          status: 'ABIERTO',
+          fechaEnvio: { gte: fechaReserva }, // Periodos desde la fecha
+          ...(ignorarVentana ? {} : filtroVentanaAbierta()),
+          ...filtroReservaDirecta,
+        },
+    select: { id: true, fechaApertura: true, fechaCorte: true, modoAsignacion: true, fechaAsignacion: true },
+  });
+
+  // El periodo elegido explícitamente debe aceptar reservas directas
+  if (periodoId && candidatos[0]) {
+    validarReservaDirecta(candidatos[0]);
+  }
+
+  // ...y tener la ventana abierta
+  if (periodoId && candidatos[0] && !ignorarVentana) {
+    validarVentanaAbierta(candidatos[0]);
+  }
+
+  if (options.bloquear) {
+    await bloquearPeriodos(tx, candidatos.map((p) => p.id));
+  }
+
+  // Releer los periodos (ya con el bloqueo si se solicitó)
+  const periodosActivos = await tx.periodoLibras.findMany({
+    where: {
+      id: { in: candidatos.map((p) => p.id) },
+      status: 'ABIERTO',
+    },
+    orderBy: {
+      fechaEnvio: 'asc',
+    },
+    include: {
+      reservas: {
+        where: {
+          status: { notIn: ['CANCELADA'] },
+        },
+        select: { libras: true },
+      },
+    },
+  });
+
+  if (periodoId && periodosActivos.length === 0) {
+    throw createBadRequestError('El periodo seleccionado no existe o no está activo');
+  }
+
+  if (periodosActivos.length === 0) {
+    throw createBadRequestError('No hay periodos activos disponibles para esta fecha o fechas futuras');
+  }
+
+  const cupos = userId ? await calcularCupos(tx, userId, periodosActivos) : null;
+
+  return periodosActivos.map((periodo) => {
+    const librasReservadas = periodo.reservas.reduce((sum, reserva) => {
+      return sum + parseFloat(reserva.libras.toString());
+    }, 0);
+
+    return {
+      id: periodo.id,
+      librasTotales: periodo.librasTotales,
+      fechaEnvio: periodo.fechaEnvio,
+      librasReservadas,
+      cupoUsuario: cupos?.get(periodo.id),
+    };
+  });
+};
+
+/**
+ * Planificar cómo repartir las libras entre los periodos (sin escribir nada)
+ * Los periodos se llenan en orden de fecha de envío, sin pasar del cupo del
+ * usuario ni dejar partes menores a la reserva mínima del periodo
+ */
+export const planificarReserva = (
+  periodos: PeriodoCandidato[],
+  librasSolicitadas: number,
+  fechaReserva: Date
+): PlanReserva => {
+  let librasRestantes = librasSolicitadas;
+  let limitadoPorCupo = false;
+  const items: PlanReservaItem[] = [];
+
+  for (const periodo of periodos) {
+    if (librasRestantes <= 0) break;
+
+    const librasDisponibles = periodo.librasTotales - periodo.librasReservadas;
+    const cupoUsuario = periodo.cupoUsuario?.librasDisponibles ?? null;
+    const librasAsignables =
+      cupoUsuario !== null ? Math.min(librasDisponibles, cupoUsuario) : librasDisponibles;
+
+    if (librasAsignables < Math.min(librasRestantes, librasDisponibles)) {
+      limitadoPorCupo = true;
+    }
+
+    if (librasAsignables > 0) {
+      const librasParaEstePeriodo = Math.min(librasRestantes, librasAsignables);
+      const minimo = periodo.cupoUsuario?.minLibrasReserva ?? null;
+
+      if (minimo !== null && librasParaEstePeriodo < minimo) {
+        limitadoPorCupo = true;
+        continue;
+      }
+
+      // ✅ CORREGIDO: Usar >= 0.01 en vez de > 0
+      if (librasParaEstePeriodo >= 0.01) {
+        const fechaEnvioPeriodo = parseDateWithoutTimezone(periodo.fechaEnvio.toISOString().split('T')[0]!);
+
+        // La primera parte conserva la fecha pedida si coincide con el envío
+        const fechaReservaParaPeriodo: Date =
+          items.length === 0 &&
+          fechaReserva.getTime() === fechaEnvioPeriodo.getTime()
+            ? fechaReserva
+            : fechaEnvioPeriodo;
+
+        items.push({
+          periodoId: periodo.id,
+          fechaEnvio: periodo.fechaEnvio,
+          libras: librasParaEstePeriodo,
+          fecha: fechaReservaParaPeriodo,
+          librasDisponibles,
+          cupoUsuario,
+        });
+
+        librasRestantes -= librasParaEstePeriodo;
+      }
+    }
+  }
+
+  const librasFaltantes = Math.max(0, librasRestantes);
+
+  return {
+    librasSolicitadas,
+    librasAsignadas: librasSolicitadas - librasFaltantes,
+    librasFaltantes,
+    completo: librasFaltantes <= 0,
+    limitadoPorCupo: limitadoPorCupo && librasFaltantes > 0,
+    items,
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * Servicio de eventos de reserva
+ * Registra el historial de transiciones de estado
+ */
+
+import { StatusReserva } from '@prisma/client';
+import { TransactionClient } from './capacidadService';
+
+/**
+ * Datos de un evento de transición
+ */
+export interface RegistrarEventoData {
+  reservaId: number;
+  statusAnterior: StatusReserva | null;
+  statusNuevo: StatusReserva;
+  actorId: number | null; // null = sistema
+  apiKeyId?: number | null; // API key con la que actuó el usuario
+  motivo?: string | null;
+}
+
+/**
+ * Registrar un evento de transición de estado
+ * Debe ejecutarse en la misma transacción que el cambio de estado
+ */
+export const registrarEventoReserva = async (
+  tx: TransactionClient,
+  data: RegistrarEventoData
+): Promise<void> => {
+  await tx.reservaEvento.create({
+    data: {
+      reservaId: data.reservaId,
+      statusAnterior: data.statusAnterior,
+      statusNuevo: data.statusNuevo,
+      actorId: data.actorId,
+      apiKeyId: data.apiKeyId ?? null,
+      motivo: data.motivo || null,
+    },
+  });
+};
@@ -0,0 +1,138 @@
+/**
+ * Servicio de retención de reservas
+ * Las reservas PENDIENTE retienen capacidad solo durante un tiempo limitado;
+ * al vencer, el programador las cancela y libera las libras
+ */
+
+import { prisma } from '../config/prisma';
+import { CONFIG } from '../config/constants';
+import { ejecutarConCapacidad, bloquearPeriodos } from './capacidadService';
+import { registrarEventoReserva } from './reservaEventoService';
+import { promoverListaEspera } from './listaEsperaService';
+
+const MOTIVO_VENCIMIENTO = 'Retención vencida: la reserva no se confirmó a tiempo';
+
+/**
+ * Horas de retención efectivas de un periodo
+ */
+export const obtenerHorasRetencion = (periodo: { horasRetencion: number | null }): number => {
+  return periodo.horasRetencion ?? CONFIG.DEFAULT_HORAS_RETENCION;
+};
+
+/**
+ * Fecha límite de retención de una reserva
+ * Solo las reservas PENDIENTE tienen fecha límite; se cuenta desde que
+ * la reserva volvió a PENDIENTE por última vez
+ */
+export const calcularFechaLimiteRetencion = (
+  reserva: { status: string; retenidaDesde: Date },
+  horasRetencion: number
+): Date | null => {
+  if (reserva.status !== 'PENDIENTE') {
+    return null;
+  }
+
+  return new Date(reserva.retenidaDesde.getTime() + horasRetencion * 60 * 60 * 1000);
+};
+
+/**
+ * Cancelar las reservas PENDIENTE cuya retención venció
+ * Cada periodo se procesa en su propia transacción
+ * @returns Número de reservas canceladas
+ */
+export const cancelarReservasVencidas = async (): Promise<number> => {
+  const periodos = await prisma.periodoLibras.findMany({
+    // Un periodo CERRADO aún retiene PENDIENTES hasta salir a tránsito
+    where: { status: { in: ['ABIERTO', 'CERRADO'] } },
+    select: { id: true, horasRetencion: true },
+  });
+
+  let canceladas = 0;
+
+  for (const periodo of periodos) {
+    const limite = new Date(Date.now() - obtenerHorasRetencion(periodo) * 60 * 60 * 1000);
+
+    const vencidas = await prisma.reserva.findMany({
+      where: {
+        periodoId: periodo.id,
+        status: 'PENDIENTE',
+        retenidaDesde: { lt: limite },
+      },
+      select: { id: true },
+    });
+
+    if (vencidas.length === 0) {
+      continue;
+    }
+
+    canceladas += await ejecutarConCapacidad(async (tx) => {
+      await bloquearPeriodos(tx, [periodo.id]);
+
+      let canceladasPeriodo = 0;
+
+      for (const { id } of vencidas) {
+        // Solo cancelar si sigue PENDIENTE (un admin pudo confirmarla mientras tanto)
+        const { count } = await tx.reserva.updateMany({
+          where: { id, status: 'PENDIENTE' },
+          data: { status: 'CANCELADA' },
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        await registrarEventoReserva(tx, {
+          reservaId: id,
+          statusAnterior: 'PENDIENTE',
+          statusNuevo: 'CANCELADA',
+          actorId: null,
+          motivo: MOTIVO_VENCIMIENTO,
+        });
+
+        canceladasPeriodo++;
+      }
+
+      // La capacidad liberada pasa a la lista de espera
+      if (canceladasPeriodo > 0) {
+        await promoverListaEspera(tx, periodo.id);
+      }
+
+      return canceladasPeriodo;
+    });
+  }
+
+  return canceladas;
+};
+
+/**
+ * Iniciar el programador de vencimientos
+ * @returns Función para detenerlo
+ */
+export const iniciarVencimientoReservas = (): (() => void) => {
+  let enEjecucion = false;
+
+  const ejecutar = async () => {
+    // Evitar ejecuciones superpuestas si una pasada tarda más que el intervalo
+    if (enEjecucion) return;
+    enEjecucion = true;
+
+    try {
+      const canceladas = await cancelarReservasVencidas();
+      if (canceladas > 0) {
+        console.log(`⏰ ${canceladas} reserva(s) PENDIENTE cancelada(s) por vencimiento`);
+      }
+    } catch (error) {
+      console.error('❌ Error al cancelar reservas vencidas:', error);
+    } finally {
+      enEjecucion = false;
+    }
+  };
+
+  const intervalo = setInterval(ejecutar, CONFIG.VENCIMIENTO_INTERVALO_MINUTOS * 60 * 1000);
+  intervalo.unref();
+
+  // Primera pasada al arrancar
+  void ejecutar();
+
+  return () => clearInterval(intervalo);
+};
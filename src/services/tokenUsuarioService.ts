@@ -0,0 +1,76 @@
+/**
+ * Servicio de tokens de usuario
+ * Tokens de un solo uso y con expiración que se envían por correo;
+ * en la base de datos solo se guarda su hash
+ */
+
+import crypto from 'crypto';
+import { TipoTokenUsuario } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { TransactionClient } from './capacidadService';
+
+/**
+ * Hash de un token de usuario
+ */
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Emitir un token nuevo
+ * Invalida los tokens anteriores del mismo tipo que aún no se usaron
+ * @returns Token en texto plano (solo se conoce al emitirlo)
+ */
+export const emitirTokenUsuario = async (
+  userId: number,
+  tipo: TipoTokenUsuario,
+  minutosValidez: number
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await prisma.$transaction([
+    prisma.tokenUsuario.updateMany({
+      where: { userId, tipo, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.tokenUsuario.create({
+      data: {
+        userId,
+        tipo,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + minutosValidez * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+};
+
+/**
+ * Consumir un token: lo marca como usado si es válido
+ * El updateMany condicionado evita que dos solicitudes usen el mismo token
+ * @returns ID del usuario dueño del token, o null si es inválido, expiró o ya se usó
+ */
+export const consumirTokenUsuario = async (
+  tx: TransactionClient,
+  tipo: TipoTokenUsuario,
+  token: string
+): Promise<number | null> => {
+  const tokenHash = hashToken(token);
+
+  const registro = await tx.tokenUsuario.findUnique({
+    where: { tokenHash },
+    select: { id: true, userId: true, tipo: true },
+  });
+
+  if (!registro || registro.tipo !== tipo) {
+    return null;
+  }
+
+  const { count } = await tx.tokenUsuario.updateMany({
+    where: { id: registro.id, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+
+  return count === 1 ? registro.userId : null;
+};
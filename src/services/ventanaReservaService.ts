@@ -0,0 +1,65 @@
+/**
+ * Servicio de ventana de reservas
+ * Cada periodo acepta reservas solo entre su fecha de apertura y su fecha de corte
+ */
+
+import { Prisma } from '@prisma/client';
+import { ERROR_MESSAGES, PERMISOS } from '../config/constants';
+import { createBadRequestError, createForbiddenError } from '../middlewares/errorHandler';
+
+/**
+ * Límites de la ventana de un periodo
+ */
+export interface VentanaPeriodo {
+  fechaApertura: Date | null;
+  fechaCorte: Date | null;
+}
+
+/**
+ * Filtro de Prisma para periodos con la ventana abierta
+ */
+export const filtroVentanaAbierta = (ahora: Date = new Date()): Prisma.PeriodoLibrasWhereInput => ({
+  AND: [
+    { OR: [{ fechaApertura: null }, { fechaApertura: { lte: ahora } }] },
+    { OR: [{ fechaCorte: null }, { fechaCorte: { gt: ahora } }] },
+  ],
+});
+
+/**
+ * Verificar si la ventana de un periodo está abierta
+ */
+export const estaVentanaAbierta = (periodo: VentanaPeriodo, ahora: Date = new Date()): boolean => {
+  if (periodo.fechaApertura && periodo.fechaApertura > ahora) return false;
+  if (periodo.fechaCorte && periodo.fechaCorte <= ahora) return false;
+  return true;
+};
+
+/**
+ * Validar que la ventana de un periodo esté abierta
+ * Lanza un error con el motivo concreto si no lo está
+ */
+export const validarVentanaAbierta = (periodo: VentanaPeriodo, ahora: Date = new Date()): void => {
+  if (periodo.fechaApertura && periodo.fechaApertura > ahora) {
+    throw createBadRequestError(ERROR_MESSAGES.VENTANA_NO_ABIERTA);
+  }
+
+  if (periodo.fechaCorte && periodo.fechaCorte <= ahora) {
+    throw createBadRequestError(ERROR_MESSAGES.VENTANA_CERRADA);
+  }
+};
+
+/**
+ * Resolver el flag de override de ventana
+ * Requiere el permiso reservas:override-ventana
+ */
+export const resolverIgnorarVentana = (permisos: readonly string[], ignorarVentana?: boolean): boolean => {
+  if (!ignorarVentana) {
+    return false;
+  }
+
+  if (!permisos.includes(PERMISOS.RESERVAS_OVERRIDE_VENTANA)) {
+    throw createForbiddenError(ERROR_MESSAGES.VENTANA_OVERRIDE_SIN_PERMISO);
+  }
+
+  return true;
+};
@@ -16,7 +16,19 @@ export interface AuthenticatedRequest extends Request {
     id: number;
     email: string;
     name: string;
-    role: 'ADMIN_PRINCIPAL' | 'USUARIO';
+    role: Role;
+    permisos: string[];
+    totpEnabled?: boolean;
+  };
+  apiKey?: {
+    id: number;
+    nombre: string;
+  };
+  apiKeyScopeVerificado?: boolean; // La ruta declaró un scope que la API key tiene
+  impersonador?: {
+    id: number;
+    email: string;
+    name: string;
   };
 }
 
@@ -48,6 +60,60 @@ export interface RefreshTokenDTO {
   refreshToken: string;
 }
 
+/**
+ * DTO para el segundo paso del login (2FA)
+ */
+export interface LoginTwoFactorDTO {
+  tokenDesafio: string;
+  codigo?: string;
+  codigoRecuperacion?: string;
+}
+
+/**
+ * DTO con un código TOTP (activar o regenerar códigos)
+ */
+export interface CodigoTotpDTO {
+  codigo: string;
+}
+
+/**
+ * DTO para desactivar 2FA
+ */
+export interface DisableTwoFactorDTO {
+  password: string;
+  codigo?: string;
+  codigoRecuperacion?: string;
+}
+
+/**
+ * DTO para verificar email
+ */
+export interface VerifyEmailDTO {
+  token: string;
+}
+
+/**
+ * DTO para reenviar el enlace de verificación
+ */
+export interface ResendVerificationDTO {
+  email: string;
+}
+
+/**
+ * DTO para solicitar el restablecimiento de contraseña
+ */
+export interface ForgotPasswordDTO {
+  email: string;
+}
+
+/**
+ * DTO para restablecer contraseña con el token recibido por correo
+ */
+export interface ResetPasswordDTO {
+  token: string;
+  newPassword: string;
+}
+
 /**
  * DTO para cambiar contraseña
  */
@@ -62,6 +128,8 @@ export interface ChangePasswordDTO {
  */
 export interface UpdateProfileDTO {
   name?: string;
+  phone?: string | null;
+  defaultEstado?: string | null;
 }
 
 /**
@@ -79,6 +147,54 @@ export interface UploadAvatarDTO {
   file: Express.Multer.File;
 }
 
+/**
+ * DTO para crear una dirección de la libreta
+ */
+export interface CreateDireccionDTO {
+  alias: string;
+  destinatario: string;
+  telefono?: string;
+  calle: string;
+  colonia?: string;
+  ciudad: string;
+  estado: string;
+  codigoPostal: string;
+  referencias?: string;
+  isDefault?: boolean;
+}
+
+/**
+ * DTO para actualizar una dirección de la libreta
+ */
+export interface UpdateDireccionDTO {
+  alias?: string;
+  destinatario?: string;
+  telefono?: string | null;
+  calle?: string;
+  colonia?: string | null;
+  ciudad?: string;
+  estado?: string;
+  codigoPostal?: string;
+  referencias?: string | null;
+  isDefault?: boolean;
+}
+
+/**
+ * Dirección de entrega copiada en la reserva y en el histórico
+ */
+export interface DireccionEntrega {
+  direccionId: number;
+  alias: string;
+  destinatario: string;
+  telefono: string | null;
+  calle: string;
+  colonia: string | null;
+  ciudad: string;
+  estado: string;
+  codigoPostal: string;
+  referencias: string | null;
+}
+
 // ============================================
 // DTOs DE USUARIOS (ADMIN)
 // ============================================
@@ -90,7 +206,7 @@ export interface CreateUserDTO {
   name: string;
   email: string;
   password: string;
-  role?: 'ADMIN_PRINCIPAL' | 'USUARIO';
+  role?: Role;
 }
 
 /**
@@ -100,10 +216,61 @@ export interface UpdateUserDTO {
   name?: string;
   email?: string;
   password?: string;
-  role?: 'ADMIN_PRINCIPAL' | 'USUARIO';
+  role?: Role;
   isActive?: boolean;
 }
 
+/**
+ * DTO para configurar los límites de reserva de un usuario (admin)
+ * null = usar el límite del periodo o el global, 0 = sin límite
+ */
+export interface UpdateLimitesUsuarioDTO {
+  maxLibrasPorUsuario?: number | null;
+  minLibrasReserva?: number | null;
+  maxReservasAbiertas?: number | null;
+}
+
+/**
+ * DTO para importar usuarios desde CSV (campos del multipart)
+ */
+export interface ImportUsersDTO {
+  dryRun?: boolean;
+  sendInvitations?: boolean; // Enviar a cada usuario un enlace para definir su contraseña
+}
+
+/**
+ * DTO para invitar a un usuario (admin)
+ */
+export interface CreateInvitacionDTO {
+  email: string;
+  role?: Role;
+}
+
+/**
+ * DTO para aceptar una invitación
+ */
+export interface AcceptInvitacionDTO {
+  token: string;
+  name: string;
+  password: string;
+}
+
+/**
+ * DTO para crear una API key (admin)
+ */
+export interface CreateApiKeyDTO {
+  nombre: string;
+  scopes: string[];
+  expiresAt?: string;
+}
+
+/**
+ * DTO para reemplazar los permisos de un rol (admin)
+ */
+export interface UpdatePermisosRolDTO {
+  permisos: string[];
+}
+
 // ============================================
 // DTOs DE PERIODOS
 // ============================================
@@ -114,6 +281,13 @@ export interface UpdateUserDTO {
 export interface CreatePeriodoDTO {
   librasTotales: number;
   fechaEnvio: string | Date; // Fecha única de envío
+  horasRetencion?: number | null; // null = usar el valor global
+  fechaApertura?: string | Date | null; // Inicio de la ventana de reservas
+  fechaCorte?: string | Date | null; // Fin de la ventana de reservas
+  maxLibrasPorUsuario?: number | null; // Límites por usuario: null = global, 0 = sin límite
+  minLibrasReserva?: number | null;
+  maxReservasAbiertas?: number | null;
+  modoAsignacion?: ModoAsignacion; // Por defecto ORDEN_LLEGADA
 }
 
 /**
@@ -122,6 +296,21 @@ export interface CreatePeriodoDTO {
 export interface UpdatePeriodoDTO {
   librasTotales?: number;
   fechaEnvio?: string | Date; // Fecha única de envío
+  horasRetencion?: number | null; // null = usar el valor global
+  fechaApertura?: string | Date | null;
+  fechaCorte?: string | Date | null;
+  maxLibrasPorUsuario?: number | null;
+  minLibrasReserva?: number | null;
+  maxReservasAbiertas?: number | null;
+  modoAsignacion?: ModoAsignacion;
+}
+
+/**
+ * DTO para cambiar el estado del ciclo de vida de un periodo
+ */
+export interface UpdateStatusPeriodoDTO {
+  status: StatusPeriodo;
+  motivo?: string;
 }
 
 // ============================================
@@ -134,9 +323,21 @@ export interface UpdatePeriodoDTO {
 export interface CreateReservaDTO {
   libras: number | string;
   fecha: string | Date;
-  estado: string;
+  estado?: string; // Si falta: el de la dirección o el destino predeterminado del perfil
   observaciones?: string;
   periodoId?: number;
+  direccionId?: number; // Si falta se usa la dirección predeterminada (si hay)
+  ignorarVentana?: boolean; // Solo admin: reservar fuera de la ventana del periodo
+}
+
+/**
+ * DTO para vista previa del reparto de una reserva
+ */
+export interface PreviewReservaDTO {
+  libras: number | string;
+  fecha: string | Date;
+  periodoId?: number;
+  ignorarVentana?: boolean;
 }
 
 /**
@@ -151,6 +352,7 @@ export interface UpdateReservaDTO {
   fechaConfirmacion?: Date | null;
   fechaEnvio?: Date | null;
   fechaEntrega?: Date | null;
+  ignorarVentana?: boolean;
 }
 
 /**
@@ -158,6 +360,33 @@ export interface UpdateReservaDTO {
  */
 export interface UpdateStatusReservaDTO {
   status: StatusReserva;
+  motivo?: string;
+}
+
+// ============================================
+// DTOs DE LISTA DE ESPERA
+// ============================================
+
+/**
+ * DTO para unirse a la lista de espera de un periodo
+ */
+export interface JoinListaEsperaDTO {
+  periodoId: number;
+  libras: number | string;
+  estado?: string; // Si falta: el de la dirección o el destino predeterminado del perfil
+  direccionId?: number;
+  observaciones?: string;
+}
+
+/**
+ * DTO para enviar una solicitud en un periodo con reparto
+ */
+export interface CreateSolicitudAsignacionDTO {
+  periodoId: number;
+  libras: number | string;
+  estado?: string; // Si falta: el de la dirección o el destino predeterminado del perfil
+  direccionId?: number;
+  observaciones?: string;
 }
 
 // ============================================
@@ -198,8 +427,17 @@ export interface PaginatedResponse<T> {
 export interface JWTAccessPayload {
   userId: number;
   email: string;
-  role: 'ADMIN_PRINCIPAL' | 'USUARIO';
+  role: Role;
   type: 'access';
+  impersonadorId?: number; // Presente en tokens de impersonación
+}
+
+/**
+ * Payload del token de desafío 2FA (entre la contraseña y el código)
+ */
+export interface JWTTwoFactorPayload {
+  userId: number;
+  type: 'two_factor';
 }
 
 /**
@@ -209,6 +447,7 @@ export interface JWTRefreshPayload {
   userId: number;
   sessionId: string;
   type: 'refresh';
+  jti: string; // Identificador único: cada rotación produce un token distinto
 }
 
 // ============================================
@@ -257,7 +496,7 @@ export interface ReservaFilters extends DateRangeFilter, PaginationFilter {
  * Filtros para usuarios
  */
 export interface UserFilters extends PaginationFilter {
-  role?: 'ADMIN_PRINCIPAL' | 'USUARIO';
+  role?: Role;
   isActive?: boolean;
   search?: string;
 }
@@ -307,7 +546,7 @@ export interface PeriodoStats {
     id: number;
     librasTotales: number;
     fechaEnvio: string; // Fecha única de envío
-    isActive: boolean;
+    status: string; // StatusPeriodo
   };
   librasReservadas: string;
   librasDisponibles: string;
@@ -422,7 +661,12 @@ export interface ReportesData {
 // ENUMERACIONES (Importadas de Prisma)
 // ============================================
 
-import { Role as PrismaRole, StatusReserva as PrismaStatusReserva } from '@prisma/client';
+import {
+  Role as PrismaRole,
+  StatusReserva as PrismaStatusReserva,
+  StatusPeriodo as PrismaStatusPeriodo,
+  ModoAsignacion as PrismaModoAsignacion,
+} from '@prisma/client';
 
 /**
  * Roles de usuario (re-export de Prisma)
@@ -436,6 +680,18 @@ export const Role = PrismaRole;
 export type StatusReserva = PrismaStatusReserva;
 export const StatusReserva = PrismaStatusReserva;
 
+/**
+ * Estados del ciclo de vida de un periodo (re-export de Prisma)
+ */
+export type StatusPeriodo = PrismaStatusPeriodo;
+export const StatusPeriodo = PrismaStatusPeriodo;
+
+/**
+ * Modos de asignación de un periodo (re-export de Prisma)
+ */
+export type ModoAsignacion = PrismaModoAsignacion;
+export const ModoAsignacion = PrismaModoAsignacion;
+
 // ============================================
 // TIPOS DE ERROR
 // ============================================
@@ -0,0 +1,93 @@
+/**
+ * Utilidades de CSV (RFC 4180)
+ */
+
+// ============================================
+// LECTURA
+// ============================================
+
+/**
+ * Convertir texto CSV en filas de celdas
+ * Admite comillas dobles, comillas escapadas ("") y saltos de línea dentro
+ * de celdas. Ignora el BOM inicial y las filas vacías.
+ */
+export const parseCsv = (contenido: string): string[][] => {
+  const texto = contenido.replace(/^\uFEFF/, '');
+  const filas: string[][] = [];
+  let fila: string[] = [];
+  let celda = '';
+  let entreComillas = false;
+
+  const cerrarFila = () => {
+    fila.push(celda);
+    if (fila.some((valor) => valor.trim() !== '')) {
+      filas.push(fila);
+    }
+    fila = [];
+    celda = '';
+  };
+
+  for (let i = 0; i < texto.length; i++) {
+    const caracter = texto[i];
+
+    if (entreComillas) {
+      if (caracter === '"' && texto[i + 1] === '"') {
+        celda += '"';
+        i++;
+      } else if (caracter === '"') {
+        entreComillas = false;
+      } else {
+        celda += caracter;
+      }
+    } else if (caracter === '"') {
+      entreComillas = true;
+    } else if (caracter === ',') {
+      fila.push(celda);
+      celda = '';
+    } else if (caracter === '\n') {
+      cerrarFila();
+    } else if (caracter !== '\r') {
+      celda += caracter;
+    }
+  }
+
+  if (celda !== '' || fila.length > 0) {
+    cerrarFila();
+  }
+
+  return filas;
+};
+
+// ============================================
+// ESCRITURA
+// ============================================
+
+/**
+ * Escapar una celda
+ * Las celdas que empiezan con =, +, - o @ se prefijan con ' para que las
+ * hojas de cálculo no las ejecuten como fórmulas
+ */
+const escaparCelda = (valor: unknown): string => {
+  if (valor === null || valor === undefined) {
+    return '';
+  }
+
+  let texto = valor instanceof Date ? valor.toISOString() : String(valor);
+
+  if (/^[=+\-@]/.test(texto)) {
+    texto = `'${texto}`;
+  }
+
+  if (/[",\r\n]/.test(texto)) {
+    return `"${texto.replace(/"/g, '""')}"`;
+  }
+
+  return texto;
+};
+
+/**
+ * Convertir una fila de valores en una línea CSV (con salto de línea)
+ */
+export const filaCsv = (valores: unknown[]): string => {
+  return `${valores.map(escaparCelda).join(',')}\r\n`;
+};
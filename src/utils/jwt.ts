@@ -2,9 +2,55 @@
  * Utilidades para manejo de JWT
  */
 
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { CONFIG } from '../config/constants';
-import type { JWTAccessPayload, JWTRefreshPayload } from '../types';
+import { obtenerAlgoritmoJwt, obtenerLlaveFirma, obtenerLlaveVerificacion } from '../config/jwtKeys';
+import type { JWTAccessPayload, JWTRefreshPayload, JWTTwoFactorPayload, Role } from '../types';
+
+const JWT_ISSUER = 'paqueteria-api';
+const JWT_AUDIENCE = 'paqueteria-app';
+
+/**
+ * Firmar un payload con el algoritmo configurado
+ * Con RS256/ES256 el header lleva el kid de la llave de firma
+ */
+const firmarToken = (payload: object, secreto: string, expiresIn: string): string => {
+  const { llave, kid } = obtenerLlaveFirma(secreto);
+
+  return jwt.sign(payload, llave, {
+    algorithm: obtenerAlgoritmoJwt(),
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+    ...(kid ? { keyid: kid } : {}),
+  });
+};
+
+/**
+ * Verificar la firma de un token con la llave de su kid
+ * Solo se acepta el algoritmo configurado (evita la confusión de algoritmos)
+ */
+const verificarToken = (token: string, secreto: string): jwt.JwtPayload => {
+  const decodificado = jwt.decode(token, { complete: true });
+
+  if (!decodificado) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  let llave;
+  try {
+    llave = obtenerLlaveVerificacion(secreto, decodificado.header.kid);
+  } catch (error) {
+    throw new jwt.JsonWebTokenError(error instanceof Error ? error.message : 'invalid key');
+  }
+
+  return jwt.verify(token, llave, {
+    algorithms: [obtenerAlgoritmoJwt()],
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+  }) as jwt.JwtPayload;
+};
 
 /**
  * Generar Access Token
@@ -13,7 +59,7 @@ import type { JWTAccessPayload, JWTRefreshPayload } from '../types';
 export const generateAccessToken = (
   userId: number,
   email: string,
-  role: 'ADMIN_PRINCIPAL' | 'USUARIO'
+  role: Role
 ): string => {
   const payload: JWTAccessPayload = {
     userId,
@@ -22,11 +68,28 @@ export const generateAccessToken = (
     type: 'access',
   };
 
-  return jwt.sign(payload, CONFIG.JWT_ACCESS_SECRET, {
-    expiresIn: CONFIG.JWT_ACCESS_EXPIRES_IN as jwt.SignOptions['expiresIn'],
-    issuer: 'paqueteria-api',
-    audience: 'paqueteria-app',
-  });
+  return firmarToken(payload, CONFIG.JWT_ACCESS_SECRET, CONFIG.JWT_ACCESS_EXPIRES_IN);
+};
+
+/**
+ * Generar Access Token de impersonación
+ * Actúa como el usuario pero lleva el ID del admin; no tiene refresh token
+ */
+export const generateImpersonationToken = (
+  userId: number,
+  email: string,
+  role: Role,
+  impersonadorId: number
+): string => {
+  const payload: JWTAccessPayload = {
+    userId,
+    email,
+    role,
+    type: 'access',
+    impersonadorId,
+  };
+
+  return firmarToken(payload, CONFIG.JWT_ACCESS_SECRET, CONFIG.IMPERSONATION_EXPIRES_IN);
 };
 
 /**
@@ -38,13 +101,44 @@ export const generateRefreshToken = (userId: number, sessionId: string): string
     userId,
     sessionId,
     type: 'refresh',
+    jti: crypto.randomUUID(),
   };
 
-  return jwt.sign(payload, CONFIG.JWT_REFRESH_SECRET, {
-    expiresIn: CONFIG.JWT_REFRESH_EXPIRES_IN as jwt.SignOptions['expiresIn'],
-    issuer: 'paqueteria-api',
-    audience: 'paqueteria-app',
-  });
+  return firmarToken(payload, CONFIG.JWT_REFRESH_SECRET, CONFIG.JWT_REFRESH_EXPIRES_IN);
+};
+
+/**
+ * Generar token de desafío 2FA
+ * Prueba que la contraseña fue correcta; no da acceso a la API
+ */
+export const generateTwoFactorToken = (userId: number): string => {
+  const payload: JWTTwoFactorPayload = {
+    userId,
+    type: 'two_factor',
+  };
+
+  return firmarToken(payload, CONFIG.JWT_ACCESS_SECRET, CONFIG.TOTP_CHALLENGE_EXPIRES_IN);
+};
+
+/**
+ * Verificar token de desafío 2FA
+ */
+export const verifyTwoFactorToken = (token: string): JWTTwoFactorPayload => {
+  const decoded = verificarToken(token, CONFIG.JWT_ACCESS_SECRET) as JWTTwoFactorPayload;
+
+  if (decoded.type !== 'two_factor') {
+    throw new Error('Token inválido: no es un token de desafío 2FA');
+  }
+
+  return decoded;
+};
+
+/**
+ * Hash de un refresh token para guardarlo en la base de datos
+ * La sesión nunca almacena el token en texto plano
+ */
+export const hashRefreshToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
 };
 
 /**
@@ -52,10 +146,7 @@ export const generateRefreshToken = (userId: number, sessionId: string): string
  */
 export const verifyAccessToken = (token: string): JWTAccessPayload => {
   try {
-    const decoded = jwt.verify(token, CONFIG.JWT_ACCESS_SECRET, {
-      issuer: 'paqueteria-api',
-      audience: 'paqueteria-app',
-    }) as JWTAccessPayload;
+    const decoded = verificarToken(token, CONFIG.JWT_ACCESS_SECRET) as JWTAccessPayload;
 
     // Validar que sea un access token
     if (decoded.type !== 'access') {
@@ -79,10 +170,7 @@ export const verifyAccessToken = (token: string): JWTAccessPayload => {
  */
 export const verifyRefreshToken = (token: string): JWTRefreshPayload => {
   try {
-    const decoded = jwt.verify(token, CONFIG.JWT_REFRESH_SECRET, {
-      issuer: 'paqueteria-api',
-      audience: 'paqueteria-app',
-    }) as JWTRefreshPayload;
+    const decoded = verificarToken(token, CONFIG.JWT_REFRESH_SECRET) as JWTRefreshPayload;
 
     // Validar que sea un refresh token
     if (decoded.type !== 'refresh') {
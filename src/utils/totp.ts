@@ -0,0 +1,150 @@
+/**
+ * Utilidades TOTP (RFC 6238) sin servicios externos
+ * HMAC-SHA1, pasos de 30 segundos y códigos de 6 dígitos,
+ * compatible con Google Authenticator, Authy, 1Password, etc.
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALFABETO = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PASO_SEGUNDOS = 30;
+export const TOTP_DIGITOS = 6;
+
+/**
+ * Codificar bytes en Base32 (RFC 4648, sin relleno)
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let valor = 0;
+  let salida = '';
+
+  for (const byte of buffer) {
+    valor = (valor << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      salida += BASE32_ALFABETO[(valor >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    salida += BASE32_ALFABETO[(valor << (5 - bits)) & 31];
+  }
+
+  return salida;
+};
+
+/**
+ * Decodificar Base32 (ignora espacios, guiones y relleno)
+ */
+export const base32Decode = (texto: string): Buffer => {
+  const limpio = texto.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let valor = 0;
+  const bytes: number[] = [];
+
+  for (const caracter of limpio) {
+    const indice = BASE32_ALFABETO.indexOf(caracter);
+
+    if (indice === -1) {
+      throw new Error('Secreto Base32 inválido');
+    }
+
+    valor = (valor << 5) | indice;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((valor >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generar un secreto nuevo (160 bits, recomendado por RFC 4226)
+ */
+export const generarSecretoTotp = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Paso de tiempo actual
+ */
+export const pasoTotpActual = (ahora: number = Date.now()): number => {
+  return Math.floor(ahora / 1000 / TOTP_PASO_SEGUNDOS);
+};
+
+/**
+ * Código HOTP (RFC 4226) para un contador
+ */
+const generarHotp = (secreto: Buffer, contador: number): string => {
+  const mensaje = Buffer.alloc(8);
+  mensaje.writeBigUInt64BE(BigInt(contador));
+
+  const hmac = crypto.createHmac('sha1', secreto).update(mensaje).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binario =
+    ((hmac[offset]! & 0x7f) << 24) |
+    (hmac[offset + 1]! << 16) |
+    (hmac[offset + 2]! << 8) |
+    hmac[offset + 3]!;
+
+  return String(binario % 10 ** TOTP_DIGITOS).padStart(TOTP_DIGITOS, '0');
+};
+
+/**
+ * Código TOTP de un paso
+ */
+export const generarCodigoTotp = (secretoBase32: string, paso: number = pasoTotpActual()): string => {
+  return generarHotp(base32Decode(secretoBase32), paso);
+};
+
+/**
+ * Verificar un código TOTP con tolerancia de ±ventana pasos (desfase de reloj)
+ * @returns Paso que coincidió, o null si el código es inválido
+ */
+export const verificarCodigoTotp = (
+  secretoBase32: string,
+  codigo: string,
+  ventana: number = 1,
+  ahora: number = Date.now()
+): number | null => {
+  if (!/^\d{6}$/.test(codigo)) {
+    return null;
+  }
+
+  const secreto = base32Decode(secretoBase32);
+  const pasoActual = pasoTotpActual(ahora);
+  const esperado = Buffer.from(codigo);
+
+  for (let desfase = -ventana; desfase <= ventana; desfase++) {
+    const paso = pasoActual + desfase;
+    const candidato = Buffer.from(generarHotp(secreto, paso));
+
+    if (crypto.timingSafeEqual(candidato, esperado)) {
+      return paso;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * URI otpauth:// para registrar el secreto en una app (código QR)
+ */
+export const construirUriOtpauth = (secretoBase32: string, cuenta: string, emisor: string): string => {
+  const etiqueta = encodeURIComponent(`${emisor}:${cuenta}`);
+  const parametros = new URLSearchParams({
+    secret: secretoBase32,
+    issuer: emisor,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITOS),
+    period: String(TOTP_PASO_SEGUNDOS),
+  });
+
+  return `otpauth://totp/${etiqueta}?${parametros.toString()}`;
+};
@@ -0,0 +1,42 @@
+/**
+ * Validadores para API keys
+ */
+
+import { body, param } from 'express-validator';
+import { PERMISOS } from '../config/constants';
+
+/**
+ * Validación para crear una API key
+ */
+export const createApiKeyValidation = [
+  body('nombre')
+    .notEmpty()
+    .withMessage('El nombre es requerido')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('Se requiere al menos un scope'),
+
+  body('scopes.*')
+    .isIn(Object.values(PERMISOS).filter((permiso) => permiso !== PERMISOS.API_KEYS_MANAGE))
+    .withMessage('Scope inválido'),
+
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Fecha de expiración inválida')
+    .custom((value) => new Date(value) > new Date())
+    .withMessage('La fecha de expiración debe ser futura'),
+];
+
+/**
+ * Validación para revocar una API key
+ */
+export const revokeApiKeyValidation = [
+  param('apiKeyId')
+    .isInt({ min: 1 })
+    .withMessage('ID de API key inválido'),
+];
@@ -40,6 +40,40 @@ export const registerValidation = [
     .withMessage('Debe contener al menos un carácter especial'),
 ];
 
+/**
+ * Validación para aceptar una invitación
+ */
+export const acceptInvitacionValidation = [
+  body('token')
+    .notEmpty()
+    .withMessage('El token es requerido')
+    .isHexadecimal()
+    .withMessage('Token inválido')
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Token inválido'),
+
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('El nombre es requerido')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('password')
+    .notEmpty()
+    .withMessage('La contraseña es requerida')
+    .isLength({ min: 8, max: 100 })
+    .withMessage('La contraseña debe tener entre 8 y 100 caracteres')
+    .matches(/[a-z]/)
+    .withMessage('Debe contener al menos una minúscula')
+    .matches(/[A-Z]/)
+    .withMessage('Debe contener al menos una mayúscula')
+    .matches(/[0-9]/)
+    .withMessage('Debe contener al menos un número')
+    .matches(/[^a-zA-Z0-9]/)
+    .withMessage('Debe contener al menos un carácter especial'),
+];
+
 /**
  * Validación para login
  */
@@ -118,6 +152,133 @@ export const changePasswordValidation = [
     .withMessage('El refresh token debe ser una cadena'),
 ];
 
+/**
+ * Validación del segundo paso del login (2FA)
+ */
+export const loginTwoFactorValidation = [
+  body('tokenDesafio')
+    .notEmpty()
+    .withMessage('El token de desafío es requerido')
+    .isString()
+    .withMessage('El token de desafío debe ser una cadena'),
+
+  body('codigo')
+    .optional()
+    .matches(/^\d{6}$/)
+    .withMessage('El código debe tener 6 dígitos'),
+
+  body('codigoRecuperacion')
+    .optional()
+    .isString()
+    .isLength({ max: 20 })
+    .withMessage('Código de recuperación inválido'),
+
+  body()
+    .custom((value) => Boolean(value.codigo || value.codigoRecuperacion))
+    .withMessage('Se requiere un código o un código de recuperación'),
+];
+
+/**
+ * Validación de un código TOTP (activar 2FA, regenerar códigos)
+ */
+export const codigoTotpValidation = [
+  body('codigo')
+    .notEmpty()
+    .withMessage('El código es requerido')
+    .matches(/^\d{6}$/)
+    .withMessage('El código debe tener 6 dígitos'),
+];
+
+/**
+ * Validación para desactivar 2FA
+ */
+export const disableTwoFactorValidation = [
+  body('password')
+    .notEmpty()
+    .withMessage('La contraseña es requerida'),
+
+  body('codigo')
+    .optional()
+    .matches(/^\d{6}$/)
+    .withMessage('El código debe tener 6 dígitos'),
+
+  body('codigoRecuperacion')
+    .optional()
+    .isString()
+    .isLength({ max: 20 })
+    .withMessage('Código de recuperación inválido'),
+
+  body()
+    .custom((value) => Boolean(value.codigo || value.codigoRecuperacion))
+    .withMessage('Se requiere un código o un código de recuperación'),
+];
+
+/**
+ * Validación para verificar email
+ */
+export const verifyEmailValidation = [
+  body('token')
+    .notEmpty()
+    .withMessage('El token es requerido')
+    .isHexadecimal()
+    .withMessage('Token inválido')
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Token inválido'),
+];
+
+/**
+ * Validación para reenviar verificación
+ */
+export const resendVerificationValidation = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('El email es requerido')
+    .isEmail()
+    .withMessage('Email inválido')
+    .normalizeEmail(),
+];
+
+/**
+ * Validación para solicitar restablecimiento de contraseña
+ */
+export const forgotPasswordValidation = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('El email es requerido')
+    .isEmail()
+    .withMessage('Email inválido')
+    .normalizeEmail(),
+];
+
+/**
+ * Validación para restablecer contraseña
+ */
+export const resetPasswordValidation = [
+  body('token')
+    .notEmpty()
+    .withMessage('El token es requerido')
+    .isHexadecimal()
+    .withMessage('Token inválido')
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Token inválido'),
+
+  body('newPassword')
+    .notEmpty()
+    .withMessage('La nueva contraseña es requerida')
+    .isLength({ min: 8, max: 100 })
+    .withMessage('La contraseña debe tener entre 8 y 100 caracteres')
+    .matches(/[a-z]/)
+    .withMessage('Debe contener al menos una minúscula')
+    .matches(/[A-Z]/)
+    .withMessage('Debe contener al menos una mayúscula')
+    .matches(/[0-9]/)
+    .withMessage('Debe contener al menos un número')
+    .matches(/[^a-zA-Z0-9]/)
+    .withMessage('Debe contener al menos un carácter especial'),
+];
+
 /**
  * Validación para eliminar sesión
  */
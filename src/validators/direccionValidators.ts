@@ -0,0 +1,158 @@
+/**
+ * Validadores para la libreta de direcciones
+ */
+
+import { body, param } from 'express-validator';
+
+const TELEFONO_REGEX = /^\+?[0-9\s()-]{7,30}$/;
+
+/**
+ * Validación para crear una dirección
+ */
+export const createDireccionValidation = [
+  body('alias')
+    .notEmpty()
+    .withMessage('El alias es requerido')
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('El alias debe tener entre 2 y 50 caracteres'),
+
+  body('destinatario')
+    .notEmpty()
+    .withMessage('El destinatario es requerido')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El destinatario debe tener entre 2 y 100 caracteres'),
+
+  body('telefono')
+    .optional()
+    .trim()
+    .matches(TELEFONO_REGEX)
+    .withMessage('Teléfono inválido'),
+
+  body('calle')
+    .notEmpty()
+    .withMessage('La calle es requerida')
+    .trim()
+    .isLength({ min: 2, max: 255 })
+    .withMessage('La calle debe tener entre 2 y 255 caracteres'),
+
+  body('colonia')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('La colonia no puede exceder 100 caracteres'),
+
+  body('ciudad')
+    .notEmpty()
+    .withMessage('La ciudad es requerida')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('La ciudad debe tener entre 2 y 100 caracteres'),
+
+  body('estado')
+    .notEmpty()
+    .withMessage('El estado es requerido')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El estado debe tener entre 2 y 100 caracteres'),
+
+  body('codigoPostal')
+    .notEmpty()
+    .withMessage('El código postal es requerido')
+    .trim()
+    .matches(/^[0-9A-Za-z-]{3,10}$/)
+    .withMessage('Código postal inválido'),
+
+  body('referencias')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Las referencias no pueden exceder 500 caracteres'),
+
+  body('isDefault')
+    .optional()
+    .isBoolean()
+    .withMessage('isDefault debe ser un booleano')
+    .toBoolean(),
+];
+
+/**
+ * Validación para actualizar una dirección
+ */
+export const updateDireccionValidation = [
+  param('direccionId')
+    .isInt({ min: 1 })
+    .withMessage('ID de dirección inválido')
+    .toInt(),
+
+  body('alias')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('El alias debe tener entre 2 y 50 caracteres'),
+
+  body('destinatario')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El destinatario debe tener entre 2 y 100 caracteres'),
+
+  body('telefono')
+    .optional({ values: 'null' })
+    .trim()
+    .matches(TELEFONO_REGEX)
+    .withMessage('Teléfono inválido'),
+
+  body('calle')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 255 })
+    .withMessage('La calle debe tener entre 2 y 255 caracteres'),
+
+  body('colonia')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('La colonia no puede exceder 100 caracteres'),
+
+  body('ciudad')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('La ciudad debe tener entre 2 y 100 caracteres'),
+
+  body('estado')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El estado debe tener entre 2 y 100 caracteres'),
+
+  body('codigoPostal')
+    .optional()
+    .trim()
+    .matches(/^[0-9A-Za-z-]{3,10}$/)
+    .withMessage('Código postal inválido'),
+
+  body('referencias')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Las referencias no pueden exceder 500 caracteres'),
+
+  body('isDefault')
+    .optional()
+    .isBoolean()
+    .withMessage('isDefault debe ser un booleano')
+    .toBoolean(),
+];
+
+/**
+ * Validación para eliminar una dirección
+ */
+export const deleteDireccionValidation = [
+  param('direccionId')
+    .isInt({ min: 1 })
+    .withMessage('ID de dirección inválido')
+    .toInt(),
+];
@@ -0,0 +1,66 @@
+/**
+ * Validadores para invitaciones
+ */
+
+import { body, param, query } from 'express-validator';
+import { ROLES, STATUS_INVITACION } from '../config/constants';
+
+/**
+ * Validación para invitar a un usuario
+ */
+export const createInvitacionValidation = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('El email es requerido')
+    .isEmail()
+    .withMessage('Email inválido')
+    .normalizeEmail()
+    .isLength({ max: 255 })
+    .withMessage('El email no puede exceder 255 caracteres'),
+
+  body('role')
+    .optional()
+    .isIn(Object.values(ROLES))
+    .withMessage('Rol inválido'),
+];
+
+/**
+ * Validación para listar invitaciones
+ */
+export const listInvitacionesValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('La página debe ser un número mayor a 0')
+    .toInt(),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100')
+    .toInt(),
+
+  query('status')
+    .optional()
+    .isIn(Object.values(STATUS_INVITACION))
+    .withMessage('Status inválido'),
+
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage('La búsqueda no puede exceder 255 caracteres'),
+];
+
+/**
+ * Validación del ID de invitación (reenviar, revocar)
+ */
+export const invitacionIdValidation = [
+  param('invitacionId')
+    .notEmpty()
+    .withMessage('El ID de invitación es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de invitación inválido')
+    .toInt(),
+];
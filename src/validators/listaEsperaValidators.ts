@@ -0,0 +1,89 @@
+/**
+ * Validadores para lista de espera
+ */
+
+import { body, param, query } from 'express-validator';
+import { STATUS_LISTA_ESPERA } from '../config/constants';
+
+/**
+ * Validación para unirse a la lista de espera
+ */
+export const joinListaEsperaValidation = [
+  body('periodoId')
+    .notEmpty()
+    .withMessage('El periodo es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de periodo inválido')
+    .toInt(),
+
+  body('libras')
+    .notEmpty()
+    .withMessage('Las libras son requeridas')
+    .isFloat({ min: 0.01 })
+    .withMessage('Las libras deben ser un número positivo')
+    .toFloat(),
+
+  body('estado')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El estado debe tener entre 2 y 100 caracteres'),
+
+  body('direccionId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('ID de dirección inválido')
+    .toInt(),
+
+  body('observaciones')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Las observaciones no pueden exceder 1000 caracteres'),
+];
+
+/**
+ * Validación para listar entradas de lista de espera
+ */
+export const listListaEsperaValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('La página debe ser un número mayor a 0')
+    .toInt(),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100')
+    .toInt(),
+
+  query('periodoId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('ID de periodo inválido')
+    .toInt(),
+
+  query('userId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('ID de usuario inválido')
+    .toInt(),
+
+  query('status')
+    .optional()
+    .isIn(Object.values(STATUS_LISTA_ESPERA))
+    .withMessage('Status inválido'),
+];
+
+/**
+ * Validación para salir de la lista de espera
+ */
+export const leaveListaEsperaValidation = [
+  param('entradaId')
+    .notEmpty()
+    .withMessage('El ID de entrada es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de entrada inválido')
+    .toInt(),
+];
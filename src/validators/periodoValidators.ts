@@ -3,6 +3,7 @@
  */
 
 import { body, param, query } from 'express-validator';
+import { STATUS_PERIODO, MODOS_ASIGNACION } from '../config/constants';
 
 /**
  * Validación para crear periodo
@@ -20,6 +21,45 @@ export const createPeriodoValidation = [
     .withMessage('La fecha de envío es requerida')
     .isISO8601()
     .withMessage('Formato de fecha inválido (usar YYYY-MM-DD)'),
+
+  body('horasRetencion')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 720 })
+    .withMessage('Las horas de retención deben estar entre 1 y 720')
+    .toInt(),
+
+  body('fechaApertura')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Formato de fecha de apertura inválido (usar ISO 8601)'),
+
+  body('fechaCorte')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Formato de fecha de corte inválido (usar ISO 8601)'),
+
+  body('maxLibrasPorUsuario')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('El máximo de libras por usuario debe ser un número mayor o igual a 0')
+    .toFloat(),
+
+  body('minLibrasReserva')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('El mínimo de libras por reserva debe ser un número mayor o igual a 0')
+    .toFloat(),
+
+  body('maxReservasAbiertas')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('El máximo de reservas abiertas debe ser un entero mayor o igual a 0')
+    .toInt(),
+
+  body('modoAsignacion')
+    .optional()
+    .isIn(Object.values(MODOS_ASIGNACION))
+    .withMessage('Modo de asignación inválido'),
 ];
 
 /**
@@ -43,6 +83,69 @@ export const updatePeriodoValidation = [
     .optional()
     .isISO8601()
     .withMessage('Formato de fecha inválido (usar YYYY-MM-DD)'),
+
+  body('horasRetencion')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 720 })
+    .withMessage('Las horas de retención deben estar entre 1 y 720')
+    .toInt(),
+
+  body('fechaApertura')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Formato de fecha de apertura inválido (usar ISO 8601)'),
+
+  body('fechaCorte')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Formato de fecha de corte inválido (usar ISO 8601)'),
+
+  body('maxLibrasPorUsuario')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('El máximo de libras por usuario debe ser un número mayor o igual a 0')
+    .toFloat(),
+
+  body('minLibrasReserva')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('El mínimo de libras por reserva debe ser un número mayor o igual a 0')
+    .toFloat(),
+
+  body('maxReservasAbiertas')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('El máximo de reservas abiertas debe ser un entero mayor o igual a 0')
+    .toInt(),
+
+  body('modoAsignacion')
+    .optional()
+    .isIn(Object.values(MODOS_ASIGNACION))
+    .withMessage('Modo de asignación inválido'),
+];
+
+/**
+ * Validación para cambiar el estado de un periodo
+ */
+export const updateStatusPeriodoValidation = [
+  param('periodoId')
+    .notEmpty()
+    .withMessage('El ID de periodo es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de periodo inválido')
+    .toInt(),
+
+  body('status')
+    .notEmpty()
+    .withMessage('El status es requerido')
+    .isIn(Object.values(STATUS_PERIODO))
+    .withMessage('Status inválido'),
+
+  body('motivo')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El motivo no puede exceder 500 caracteres'),
 ];
 
 /**
@@ -57,6 +160,30 @@ export const closePeriodoValidation = [
     .toInt(),
 ];
 
+/**
+ * Validación para reabrir periodo archivado
+ */
+export const reopenPeriodoValidation = [
+  param('periodoId')
+    .notEmpty()
+    .withMessage('El ID de periodo es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de periodo inválido')
+    .toInt(),
+];
+
+/**
+ * Validación para la vista previa y ejecución del reparto
+ */
+export const asignacionPeriodoValidation = [
+  param('periodoId')
+    .notEmpty()
+    .withMessage('El ID de periodo es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de periodo inválido')
+    .toInt(),
+];
+
 /**
  * Validación para obtener periodo por ID
  */
@@ -85,9 +212,8 @@ export const listPeriodosValidation = [
     .withMessage('El límite debe estar entre 1 y 100')
     .toInt(),
 
-  query('isActive')
+  query('status')
     .optional()
-    .isBoolean()
-    .withMessage('isActive debe ser un booleano')
-    .toBoolean(),
+    .isIn(Object.values(STATUS_PERIODO))
+    .withMessage('Status de periodo inválido'),
 ];
\ No newline at end of file
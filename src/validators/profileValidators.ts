@@ -9,11 +9,22 @@ import { body } from 'express-validator';
  */
 export const updateProfileValidation = [
   body('name')
+    .optional()
     .trim()
-    .notEmpty()
-    .withMessage('El nombre es requerido')
     .isLength({ min: 2, max: 100 })
     .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('phone')
+    .optional({ values: 'null' })
+    .trim()
+    .matches(/^\+?[0-9\s()-]{0,30}$/)
+    .withMessage('Teléfono inválido'),
+
+  body('defaultEstado')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('El estado no puede exceder 100 caracteres'),
 ];
 
 /**
@@ -24,8 +24,7 @@ export const createReservaValidation = [
     
 
   body('estado')
-    .notEmpty()
-    .withMessage('El estado es requerido')
+    .optional()
     .trim()
     .isLength({ min: 2, max: 100 })
     .withMessage('El estado debe tener entre 2 y 100 caracteres'),
@@ -35,6 +34,54 @@ export const createReservaValidation = [
     .trim()
     .isLength({ max: 1000 })
     .withMessage('Las observaciones no pueden exceder 1000 caracteres'),
+
+  body('periodoId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('ID de periodo inválido')
+    .toInt(),
+
+  body('direccionId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('ID de dirección inválido')
+    .toInt(),
+
+  body('ignorarVentana')
+    .optional()
+    .isBoolean()
+    .withMessage('ignorarVentana debe ser un booleano')
+    .toBoolean(),
+];
+
+/**
+ * Validación para vista previa de reserva
+ */
+export const previewReservaValidation = [
+  body('libras')
+    .notEmpty()
+    .withMessage('Las libras son requeridas')
+    .isFloat({ min: 0.01 })
+    .withMessage('Las libras deben ser un número positivo')
+    .toFloat(),
+
+  body('fecha')
+    .notEmpty()
+    .withMessage('La fecha es requerida')
+    .isISO8601()
+    .withMessage('Formato de fecha inválido (usar YYYY-MM-DD)'),
+
+  body('periodoId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('ID de periodo inválido')
+    .toInt(),
+
+  body('ignorarVentana')
+    .optional()
+    .isBoolean()
+    .withMessage('ignorarVentana debe ser un booleano')
+    .toBoolean(),
 ];
 
 /**
@@ -76,6 +123,12 @@ export const updateReservaValidation = [
     .optional()
     .isIn(Object.values(STATUS_RESERVA))
     .withMessage('Status inválido'),
+
+  body('ignorarVentana')
+    .optional()
+    .isBoolean()
+    .withMessage('ignorarVentana debe ser un booleano')
+    .toBoolean(),
 ];
 
 /**
@@ -94,6 +147,12 @@ export const updateStatusReservaValidation = [
     .withMessage('El status es requerido')
     .isIn(Object.values(STATUS_RESERVA))
     .withMessage('Status inválido'),
+
+  body('motivo')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El motivo no puede exceder 500 caracteres'),
 ];
 
 /**
@@ -120,6 +179,18 @@ export const getReservaByIdValidation = [
     .toInt(),
 ];
 
+/**
+ * Validación para obtener historial de una reserva
+ */
+export const getReservaHistoryValidation = [
+  param('reservaId')
+    .notEmpty()
+    .withMessage('El ID de reserva es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de reserva inválido')
+    .toInt(),
+];
+
 /**
  * Validación para listar reservas
  */
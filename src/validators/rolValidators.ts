@@ -0,0 +1,33 @@
+/**
+ * Validadores para roles y permisos
+ */
+
+import { body, param } from 'express-validator';
+import { ROLES, PERMISOS } from '../config/constants';
+
+/**
+ * Validación del parámetro de rol
+ */
+const rolParam = param('role')
+  .isIn(Object.values(ROLES))
+  .withMessage('Rol inválido');
+
+/**
+ * Validación para reemplazar los permisos de un rol
+ */
+export const updatePermisosRolValidation = [
+  rolParam,
+
+  body('permisos')
+    .isArray()
+    .withMessage('Los permisos deben ser una lista'),
+
+  body('permisos.*')
+    .isIn(Object.values(PERMISOS))
+    .withMessage('Permiso inválido'),
+];
+
+/**
+ * Validación para restablecer los permisos por defecto de un rol
+ */
+export const resetPermisosRolValidation = [rolParam];
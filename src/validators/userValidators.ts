@@ -42,7 +42,7 @@ export const createUserValidation = [
 
   body('role')
     .optional()
-    .isIn([ROLES.ADMIN_PRINCIPAL, ROLES.USUARIO])
+    .isIn(Object.values(ROLES))
     .withMessage('Rol inválido'),
 ];
 
@@ -87,7 +87,7 @@ export const updateUserValidation = [
 
   body('role')
     .optional()
-    .isIn([ROLES.ADMIN_PRINCIPAL, ROLES.USUARIO])
+    .isIn(Object.values(ROLES))
     .withMessage('Rol inválido'),
 
   body('isActive')
@@ -138,7 +138,7 @@ export const listUsersValidation = [
 
   query('role')
     .optional()
-    .isIn([ROLES.ADMIN_PRINCIPAL, ROLES.USUARIO])
+    .isIn(Object.values(ROLES))
     .withMessage('Rol inválido'),
 
   query('isActive')
@@ -154,6 +154,18 @@ export const listUsersValidation = [
     .withMessage('La búsqueda no puede exceder 255 caracteres'),
 ];
 
+/**
+ * Validación para desbloquear usuario
+ */
+export const unlockUserValidation = [
+  param('userId')
+    .notEmpty()
+    .withMessage('El ID de usuario es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de usuario inválido')
+    .toInt(),
+];
+
 /**
  * Validación para cambiar rol de usuario
  */
@@ -168,6 +180,124 @@ export const changeUserRoleValidation = [
   body('role')
     .notEmpty()
     .withMessage('El rol es requerido')
-    .isIn([ROLES.ADMIN_PRINCIPAL, ROLES.USUARIO])
+    .isIn(Object.values(ROLES))
+    .withMessage('Rol inválido'),
+];
+
+/**
+ * Validación para impersonar usuario
+ */
+export const impersonateUserValidation = [
+  param('userId')
+    .notEmpty()
+    .withMessage('El ID de usuario es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de usuario inválido')
+    .toInt(),
+];
+
+/**
+ * Validación para anonimizar usuario
+ */
+export const anonymizeUserValidation = [
+  param('userId')
+    .notEmpty()
+    .withMessage('El ID de usuario es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de usuario inválido')
+    .toInt(),
+];
+
+/**
+ * Validación de cada fila del CSV de importación
+ * Mismas reglas que al crear un usuario; la contraseña la define el usuario
+ */
+export const importUserRowValidation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('El nombre es requerido')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El nombre debe tener entre 2 y 100 caracteres'),
+
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('El email es requerido')
+    .isEmail()
+    .withMessage('Email inválido')
+    .normalizeEmail()
+    .isLength({ max: 255 })
+    .withMessage('El email no puede exceder 255 caracteres'),
+
+  body('role')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isIn(Object.values(ROLES))
     .withMessage('Rol inválido'),
-];
\ No newline at end of file
+
+  body('phone')
+    .optional({ values: 'falsy' })
+    .trim()
+    .matches(/^\+?[0-9\s()-]{7,30}$/)
+    .withMessage('Teléfono inválido'),
+];
+
+/**
+ * Validación para importar usuarios desde CSV
+ */
+export const importUsersValidation = [
+  body('dryRun')
+    .optional()
+    .isBoolean()
+    .withMessage('dryRun debe ser un booleano')
+    .toBoolean(),
+
+  body('sendInvitations')
+    .optional()
+    .isBoolean()
+    .withMessage('sendInvitations debe ser un booleano')
+    .toBoolean(),
+];
+
+/**
+ * Validación para consultar o quitar los límites de reserva de un usuario
+ */
+export const userLimitesValidation = [
+  param('userId')
+    .notEmpty()
+    .withMessage('El ID de usuario es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de usuario inválido')
+    .toInt(),
+];
+
+/**
+ * Validación para configurar los límites de reserva de un usuario
+ */
+export const updateUserLimitesValidation = [
+  param('userId')
+    .notEmpty()
+    .withMessage('El ID de usuario es requerido')
+    .isInt({ min: 1 })
+    .withMessage('ID de usuario inválido')
+    .toInt(),
+
+  body('maxLibrasPorUsuario')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('El máximo de libras por usuario debe ser un número mayor o igual a 0')
+    .toFloat(),
+
+  body('minLibrasReserva')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('El mínimo de libras por reserva debe ser un número mayor o igual a 0')
+    .toFloat(),
+
+  body('maxReservasAbiertas')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('El máximo de reservas abiertas debe ser un entero mayor o igual a 0')
+    .toInt(),
+];
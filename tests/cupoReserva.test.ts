@@ -0,0 +1,118 @@
+/**
+ * Pruebas de la resolución de límites por usuario
+ * resolverLimites y motivoCupoExcedido son funciones puras: no necesitan base de datos
+ */
+
+// Límites globales fijos: CONFIG los lee al importar las constantes
+process.env.LIMITE_MAX_LIBRAS_USUARIO = '100';
+process.env.LIMITE_MIN_LIBRAS_RESERVA = '2';
+process.env.LIMITE_MAX_RESERVAS_ABIERTAS = '3';
+
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import type * as CupoReservaService from '../src/services/cupoReservaService';
+
+const SIN_CONFIGURAR: CupoReservaService.ConfigLimites = {
+  maxLibrasPorUsuario: null,
+  minLibrasReserva: null,
+  maxReservasAbiertas: null,
+};
+
+describe('resolverLimites', () => {
+  let resolverLimites: typeof CupoReservaService.resolverLimites;
+
+  before(async () => {
+    ({ resolverLimites } = await import('../src/services/cupoReservaService'));
+  });
+
+  it('usa los límites globales si ni el periodo ni el usuario los configuran', () => {
+    assert.deepEqual(resolverLimites(SIN_CONFIGURAR, null), {
+      maxLibrasPorUsuario: 100,
+      minLibrasReserva: 2,
+      maxReservasAbiertas: 3,
+    });
+  });
+
+  it('el periodo tiene prioridad sobre el global', () => {
+    const periodo = { maxLibrasPorUsuario: 50, minLibrasReserva: 5, maxReservasAbiertas: 1 };
+
+    assert.deepEqual(resolverLimites(periodo, SIN_CONFIGURAR), {
+      maxLibrasPorUsuario: 50,
+      minLibrasReserva: 5,
+      maxReservasAbiertas: 1,
+    });
+  });
+
+  it('el usuario tiene prioridad sobre el periodo y hereda lo que no configura', () => {
+    const periodo = { maxLibrasPorUsuario: 50, minLibrasReserva: 5, maxReservasAbiertas: 1 };
+    const usuario = { maxLibrasPorUsuario: 80, minLibrasReserva: null, maxReservasAbiertas: null };
+
+    assert.deepEqual(resolverLimites(periodo, usuario), {
+      maxLibrasPorUsuario: 80,
+      minLibrasReserva: 5,
+      maxReservasAbiertas: 1,
+    });
+  });
+
+  it('0 significa sin límite y no hereda del nivel siguiente', () => {
+    const periodo = { maxLibrasPorUsuario: 0, minLibrasReserva: 5, maxReservasAbiertas: 0 };
+    const usuario = { maxLibrasPorUsuario: null, minLibrasReserva: 0, maxReservasAbiertas: null };
+
+    assert.deepEqual(resolverLimites(periodo, usuario), {
+      maxLibrasPorUsuario: null,
+      minLibrasReserva: null,
+      maxReservasAbiertas: null,
+    });
+  });
+
+  it('acepta los Decimal de Prisma', () => {
+    const periodo = {
+      maxLibrasPorUsuario: new Prisma.Decimal('12.5'),
+      minLibrasReserva: new Prisma.Decimal('0.5'),
+      maxReservasAbiertas: null,
+    };
+
+    assert.deepEqual(resolverLimites(periodo, null), {
+      maxLibrasPorUsuario: 12.5,
+      minLibrasReserva: 0.5,
+      maxReservasAbiertas: 3,
+    });
+  });
+});
+
+describe('motivoCupoExcedido', () => {
+  let motivoCupoExcedido: typeof CupoReservaService.motivoCupoExcedido;
+
+  const cupo: CupoReservaService.CupoUsuario = {
+    maxLibrasPorUsuario: 20,
+    minLibrasReserva: 2,
+    maxReservasAbiertas: 2,
+    librasReservadas: 15,
+    reservasAbiertas: 1,
+    librasDisponibles: 5,
+  };
+
+  before(async () => {
+    ({ motivoCupoExcedido } = await import('../src/services/cupoReservaService'));
+  });
+
+  it('acepta una reserva dentro de todos los límites', () => {
+    assert.equal(motivoCupoExcedido(cupo, 5, true), null);
+  });
+
+  it('rechaza una reserva menor a la mínima', () => {
+    assert.match(motivoCupoExcedido(cupo, 1, true) ?? '', /reserva mínima/);
+  });
+
+  it('rechaza pasar del máximo de libras del usuario', () => {
+    assert.match(motivoCupoExcedido(cupo, 6, true) ?? '', /límite de 20 lbs/);
+  });
+
+  it('cuenta las reservas abiertas solo si la reserva abre un lugar', () => {
+    const lleno = { ...cupo, reservasAbiertas: 2 };
+
+    assert.match(motivoCupoExcedido(lleno, 5, true) ?? '', /reservas abiertas/);
+    assert.equal(motivoCupoExcedido(lleno, 5, false), null);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Pruebas del planificador de reservas
+ * planificarReserva es una función pura: no necesita base de datos
+ */
+
+process.env.TZ = 'America/Mexico_City';
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CupoUsuario } from '../src/services/cupoReservaService';
+import { PeriodoCandidato, planificarReserva } from '../src/services/planReservaService';
+import { parseDateWithoutTimezone } from '../src/utils/validators';
+
+// Fechas de envío como las devuelve la base de datos (DATE a medianoche UTC)
+const ENVIO_1 = new Date('2999-01-01T00:00:00.000Z');
+const ENVIO_2 = new Date('2999-01-08T00:00:00.000Z');
+const fechaReserva = parseDateWithoutTimezone('2999-01-01');
+
+const periodo = (
+  id: number,
+  librasTotales: number,
+  librasReservadas: number,
+  fechaEnvio: Date,
+  cupoUsuario?: Partial<CupoUsuario>
+): PeriodoCandidato => ({
+  id,
+  librasTotales,
+  librasReservadas,
+  fechaEnvio,
+  cupoUsuario: cupoUsuario && {
+    maxLibrasPorUsuario: null,
+    minLibrasReserva: null,
+    maxReservasAbiertas: null,
+    librasReservadas: 0,
+    reservasAbiertas: 0,
+    librasDisponibles: null,
+    ...cupoUsuario,
+  },
+});
+
+describe('planificarReserva', () => {
+  it('llena los periodos en orden de fecha de envío', () => {
+    const plan = planificarReserva(
+      [periodo(1, 30, 20, ENVIO_1), periodo(2, 50, 0, ENVIO_2)],
+      25,
+      fechaReserva
+    );
+
+    assert.deepEqual(
+      plan.items.map((i) => [i.periodoId, i.libras, i.librasDisponibles]),
+      [[1, 10, 10], [2, 15, 50]]
+    );
+    assert.equal(plan.librasAsignadas, 25);
+    assert.equal(plan.librasFaltantes, 0);
+    assert.equal(plan.completo, true);
+    assert.equal(plan.limitadoPorCupo, false);
+  });
+
+  it('conserva la fecha pedida solo en la primera parte si coincide con el envío', () => {
+    const plan = planificarReserva(
+      [periodo(1, 10, 0, ENVIO_1), periodo(2, 10, 0, ENVIO_2)],
+      15,
+      fechaReserva
+    );
+
+    assert.equal(plan.items[0]!.fecha, fechaReserva);
+    assert.equal(plan.items[1]!.fecha.getDate(), 8);
+    assert.equal(plan.items[1]!.fecha.getHours(), 12);
+  });
+
+  it('deja libras faltantes sin culpar al cupo cuando falta capacidad', () => {
+    const plan = planificarReserva([periodo(1, 30, 20, ENVIO_1)], 15, fechaReserva);
+
+    assert.equal(plan.librasAsignadas, 10);
+    assert.equal(plan.librasFaltantes, 5);
+    assert.equal(plan.completo, false);
+    assert.equal(plan.limitadoPorCupo, false);
+  });
+
+  it('no pasa del cupo del usuario en el periodo', () => {
+    const plan = planificarReserva(
+      [periodo(1, 50, 0, ENVIO_1, { maxLibrasPorUsuario: 20, librasReservadas: 15, librasDisponibles: 5 })],
+      20,
+      fechaReserva
+    );
+
+    assert.deepEqual(plan.items.map((i) => [i.periodoId, i.libras, i.cupoUsuario]), [[1, 5, 5]]);
+    assert.equal(plan.librasFaltantes, 15);
+    assert.equal(plan.limitadoPorCupo, true);
+  });
+
+  it('pasa al siguiente periodo lo que el cupo no deja asignar', () => {
+    const plan = planificarReserva(
+      [periodo(1, 50, 0, ENVIO_1, { librasDisponibles: 5 }), periodo(2, 50, 0, ENVIO_2)],
+      20,
+      fechaReserva
+    );
+
+    assert.deepEqual(plan.items.map((i) => [i.periodoId, i.libras]), [[1, 5], [2, 15]]);
+    assert.equal(plan.completo, true);
+    assert.equal(plan.limitadoPorCupo, false);
+  });
+
+  it('salta un periodo donde la parte quedaría bajo la reserva mínima', () => {
+    const plan = planificarReserva(
+      [periodo(1, 10, 7, ENVIO_1, { minLibrasReserva: 5 }), periodo(2, 50, 0, ENVIO_2)],
+      12,
+      fechaReserva
+    );
+
+    assert.deepEqual(plan.items.map((i) => [i.periodoId, i.libras]), [[2, 12]]);
+    assert.equal(plan.completo, true);
+  });
+
+  it('marca limitadoPorCupo si la reserva mínima deja libras sin asignar', () => {
+    const plan = planificarReserva(
+      [periodo(1, 10, 7, ENVIO_1, { minLibrasReserva: 5 })],
+      12,
+      fechaReserva
+    );
+
+    assert.equal(plan.items.length, 0);
+    assert.equal(plan.librasFaltantes, 12);
+    assert.equal(plan.limitadoPorCupo, true);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Prueba de concurrencia de reservas
+ * Lanza solicitudes simultáneas a POST /api/reservas contra periodos con
+ * menos capacidad de la pedida y comprueba que no se sobrevenden.
+ *
+ * Requiere una base de datos MySQL desechable con el esquema aplicado:
+ *   TEST_DATABASE_URL=mysql://... npm test
+ * Sin TEST_DATABASE_URL la prueba se omite.
+ */
+
+process.env.TZ = 'America/Mexico_City';
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { PrismaClient } from '@prisma/client';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+// Solicitudes simultáneas, libras de cada una y capacidad de los dos periodos
+const SOLICITUDES = 12;
+const LIBRAS_POR_SOLICITUD = 8;
+const CAPACIDADES = [30, 20]; // 50 < 12 × 8 = 96
+
+// Fechas lejanas para no tomar como candidatos otros periodos abiertos
+const FECHA_RESERVA = '2998-12-31';
+const FECHAS_ENVIO = ['2999-01-01', '2999-01-02'];
+
+describe('POST /api/reservas en paralelo', { skip: !TEST_DATABASE_URL && 'TEST_DATABASE_URL no definida' }, () => {
+  let prisma: PrismaClient;
+  let server: Server;
+  let baseUrl: string;
+  const periodoIds: number[] = [];
+  const usuarios: { id: number; token: string }[] = [];
+
+  before(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+
+    const { createApp } = await import('../src/app');
+    const { generateAccessToken } = await import('../src/utils/jwt');
+    const { parseDateWithoutTimezone } = await import('../src/utils/validators');
+    ({ prisma } = await import('../src/config/prisma'));
+
+    for (const [index, librasTotales] of CAPACIDADES.entries()) {
+      const periodo = await prisma.periodoLibras.create({
+        data: {
+          librasTotales,
+          fechaEnvio: parseDateWithoutTimezone(FECHAS_ENVIO[index]!),
+          // Sin límites por usuario: solo debe actuar la capacidad
+          maxLibrasPorUsuario: 0,
+          minLibrasReserva: 0,
+          maxReservasAbiertas: 0,
+        },
+      });
+      periodoIds.push(periodo.id);
+    }
+
+    // Un usuario por solicitud, para que fallen solo por capacidad
+    const sufijo = Date.now();
+    for (let i = 0; i < SOLICITUDES; i++) {
+      const user = await prisma.user.create({
+        data: {
+          name: `Concurrencia ${i}`,
+          email: `concurrencia-${sufijo}-${i}@test.local`,
+          password: 'sin-login',
+          emailVerifiedAt: new Date(),
+        },
+      });
+      usuarios.push({ id: user.id, token: generateAccessToken(user.id, user.email, user.role) });
+    }
+
+    server = createApp().listen(0);
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    if (!prisma) return;
+
+    const userIds = usuarios.map((u) => u.id);
+    await prisma.reserva.deleteMany({ where: { periodoId: { in: periodoIds } } });
+    await prisma.periodoLibras.deleteMany({ where: { id: { in: periodoIds } } });
+    await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    await prisma.$disconnect();
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('no sobrevende los periodos ni deja reservas parciales', async () => {
+    const respuestas = await Promise.all(
+      usuarios.map((usuario) =>
+        fetch(`${baseUrl}/api/reservas`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${usuario.token}`,
+          },
+          body: JSON.stringify({ libras: LIBRAS_POR_SOLICITUD, fecha: FECHA_RESERVA, estado: 'CDMX' }),
+        })
+      )
+    );
+
+    const statusPorUsuario = new Map(usuarios.map((u, i) => [u.id, respuestas[i]!.status]));
+    const aceptadas = [...statusPorUsuario.values()].filter((s) => s === 201).length;
+    const rechazadas = [...statusPorUsuario.values()].filter((s) => s === 400).length;
+
+    assert.equal(aceptadas + rechazadas, SOLICITUDES, 'toda solicitud termina en 201 o 400');
+    assert.ok(rechazadas > 0, 'la capacidad total es menor que la demanda');
+
+    // Ningún periodo supera librasTotales con reservas no canceladas
+    for (const [index, periodoId] of periodoIds.entries()) {
+      const suma = await prisma.reserva.aggregate({
+        where: { periodoId, status: { notIn: ['CANCELADA'] } },
+        _sum: { libras: true },
+      });
+      const reservadas = suma._sum.libras ? parseFloat(suma._sum.libras.toString()) : 0;
+
+      assert.ok(
+        reservadas <= CAPACIDADES[index]!,
+        `periodo ${periodoId}: ${reservadas} lbs reservadas de ${CAPACIDADES[index]}`
+      );
+    }
+
+    // Cada solicitud aceptada tiene sus libras completas (aunque se haya dividido)
+    // y una rechazada no deja ninguna fila
+    const reservas = await prisma.reserva.findMany({
+      where: { periodoId: { in: periodoIds } },
+      select: { userId: true, libras: true },
+    });
+
+    for (const [userId, status] of statusPorUsuario) {
+      const propias = reservas.filter((r) => r.userId === userId);
+      const libras = propias.reduce((sum, r) => sum + parseFloat(r.libras.toString()), 0);
+
+      if (status === 201) {
+        assert.equal(libras, LIBRAS_POR_SOLICITUD, `usuario ${userId}: reserva incompleta`);
+      } else {
+        assert.equal(propias.length, 0, `usuario ${userId}: quedaron ${propias.length} reservas parciales`);
+      }
+    }
+
+    const totalReservado = reservas.reduce((sum, r) => sum + parseFloat(r.libras.toString()), 0);
+    assert.equal(totalReservado, aceptadas * LIBRAS_POR_SOLICITUD);
+  });
+});